@@ -2,37 +2,55 @@
 /// <reference path="../src/parser.ts" />
 /// <reference path="../src/webidl.ts" />
 /// <reference path="../src/typescript.ts" />
+/// <reference path="../src/incremental.ts" />
+/// <reference path="../src/diagnostics.ts" />
+/// <reference path="../src/resolver.ts" />
+/// <reference path="../src/merge.ts" />
 "use strict";
 
-import tokenize from "../src/tokenizer";
-import { TokenKind } from "../src/tokenizer";
 import { Writer, Emitter, Generator } from "../src/typescript";
+import { parse, update, diff } from "../src/incremental";
+import { Cursor, TraceNode, trace, printTrace, traceToJSON } from "../src/parser";
+import { format, fromSnapshot } from "../src/diagnostics";
 import * as webidl from "../src/webidl";
+import { Resolver } from "../src/resolver";
+import { merge } from "../src/merge";
 
 window.addEventListener("load", (e) => {
 	const input = <HTMLTextAreaElement>document.querySelector("textarea#input");
 	const output = <HTMLTextAreaElement>document.querySelector("textarea#output");
+	const view = <HTMLSelectElement>document.querySelector("select#view");
 	
-	input.addEventListener("change", (e) => {
-		let iterable = tokenize(input.value);
-		let tokens = Array.from(iterable).filter(t => t.kind != TokenKind.whitespace && t.kind != TokenKind.comment);
-
-		let parser = webidl.grammar.Definitions();
-		let definitions = parser(tokens);
-		definitions.success = definitions.success && definitions.rest.length === 1 && definitions.rest[0].kind === TokenKind.eof;
-
-		if(definitions.success) {
+	let snapshot = parse(input.value);
+	
+	function render() {
+		if (view.value !== "typescript") {
+			// The snapshot is parsed incrementally, the trace needs a parse from scratch:
+			let calls = new Array<TraceNode>();
+			trace(webidl.grammar.Definitions(true), calls)(new Cursor(snapshot.tokens));
+			output.value = view.value === "json" ? JSON.stringify(traceToJSON(calls), null, "\t") : printTrace(calls);
+		} else if(snapshot.definitions && snapshot.tokenizerErrors.length === 0) {
 			let writer = new Writer();
 			let emitter = new Emitter(writer);
-			let generator = new Generator();
+			let definitions = merge(snapshot.definitions).definitions;
+			let generator = new Generator(new Resolver(definitions));
 			
-			definitions.value.map((def) => def.accept(generator)).reduce((list, item) => {
+			definitions.map((def) => def.accept(generator)).reduce((list, item) => {
 				return list.concat(item);
 			}, []).forEach((stmt) => stmt.accept(emitter));
 			
 			output.value = writer.toString();
 		} else {
-			output.value = JSON.stringify(definitions.errors, null, "\t");
+			output.value = fromSnapshot(snapshot).map((diagnostic) => format(snapshot.source, diagnostic)).join("\n\n");
 		}
+	}
+	
+	input.addEventListener("input", (e) => {
+		snapshot = update(snapshot, diff(snapshot.source.text, input.value));
+		render();
+	});
+	
+	view.addEventListener("change", (e) => {
+		render();
 	});
 });
\ No newline at end of file
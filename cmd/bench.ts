@@ -0,0 +1,105 @@
+/// <reference path="typings/node/node.d.ts" />
+/// <reference path="../src/tokenizer.ts" />
+/// <reference path="../src/parser.ts" />
+/// <reference path="../src/webidl.ts" />
+"use strict";
+
+import * as fs from "fs";
+import * as path from "path";
+
+import tokenize from "../src/tokenizer";
+import { SourceFile, attachTrivia } from "../src/tokenizer";
+import { Cursor, IParser, packrat } from "../src/parser";
+import * as webidl from "../src/webidl";
+
+// Usage: node bench.js <directory with .idl files> [runs]
+const directory = process.argv[2];
+const runs = Number(process.argv[3] || 10);
+
+interface Measurement {
+	/**
+	 * Milliseconds.
+	 */
+	time: number;
+	/**
+	 * Growth of the used heap in bytes, garbage collections during a run hide what was allocated.
+	 */
+	heap: number;
+	/**
+	 *
+	 */
+	failures: number;
+}
+
+function load(directory: string): Cursor[] {
+	let files = fs.readdirSync(directory).filter((file) => path.extname(file) === ".idl");
+
+	return files.map((file) => {
+		let source = new SourceFile(fs.readFileSync(path.join(directory, file), "utf8"));
+		return new Cursor(Array.from(attachTrivia(tokenize(source, 0, []))));
+	});
+}
+
+function measure(parser: IParser<webidl.model.Definition[]>, corpus: Cursor[]): Measurement {
+	let failures = 0;
+	let before = process.memoryUsage().heapUsed;
+	let start = process.hrtime();
+
+	for (let tokens of corpus) {
+		if (!parser(tokens).success) {
+			failures += 1;
+		}
+	}
+
+	let elapsed = process.hrtime(start);
+	let heap = Math.max(0, process.memoryUsage().heapUsed - before);
+	return { time: elapsed[0] * 1e3 + elapsed[1] / 1e6, heap, failures };
+}
+
+/**
+ * The median of each figure, which is less affected by garbage collections than the mean.
+ * @param measurements
+ * @return
+ */
+function median(measurements: Measurement[]): Measurement {
+	let middle = (values: number[]) => values.sort((a, b) => a - b)[Math.floor(values.length / 2)];
+
+	return {
+		time: middle(measurements.map((m) => m.time)),
+		heap: middle(measurements.map((m) => m.heap)),
+		failures: middle(measurements.map((m) => m.failures))
+	};
+}
+
+function report(name: string, measurement: Measurement): void {
+	let time = measurement.time.toFixed(1);
+	let heap = (measurement.heap / 1024 / 1024).toFixed(1);
+	console.info(`${name}: ${time} ms, ${heap} MiB heap growth, ${measurement.failures} failures`);
+}
+
+let corpus = load(directory);
+let count = corpus.reduce((sum, tokens) => sum + tokens.length, 0);
+
+console.info(`${corpus.length} files, ${count} tokens, ${runs} runs`);
+
+// The first runs build the parsers of all rules and warm up the JIT:
+measure(webidl.grammar.Definitions(), corpus);
+measure(packrat(webidl.grammar.Definitions()), corpus);
+
+let plain = new Array<Measurement>();
+let memoized = new Array<Measurement>();
+
+// Alternating which goes first, as a run pays for the garbage of the one before:
+for (let i = 0; i < runs; i++) {
+	if (i % 2 === 0) {
+		plain.push(measure(webidl.grammar.Definitions(), corpus));
+		memoized.push(measure(packrat(webidl.grammar.Definitions()), corpus));
+	} else {
+		memoized.push(measure(packrat(webidl.grammar.Definitions()), corpus));
+		plain.push(measure(webidl.grammar.Definitions(), corpus));
+	}
+}
+
+report("plain", median(plain));
+report("packrat", median(memoized));
+console.info(`packrat takes ${(median(memoized).time / median(plain).time * 100).toFixed(0)}% of the time of plain parsing`);
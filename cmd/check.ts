@@ -0,0 +1,264 @@
+/// <reference path="typings/node/node.d.ts" />
+/// <reference path="../src/tokenizer.ts" />
+/// <reference path="../src/parser.ts" />
+/// <reference path="../src/webidl.ts" />
+/// <reference path="../src/diagnostics.ts" />
+/// <reference path="../src/semantic.ts" />
+/// <reference path="../src/merge.ts" />
+/// <reference path="../src/resolver.ts" />
+/// <reference path="../src/typescript.ts" />
+/// <reference path="../src/incremental.ts" />
+"use strict";
+
+import * as fs from "fs";
+import * as path from "path";
+
+import tokenize from "../src/tokenizer";
+import { SourceFile, Token, TokenKind, TokenizerError, attachTrivia } from "../src/tokenizer";
+import { Cursor, ParserError, packrat } from "../src/parser";
+import { Diagnostic, format, fromParserErrors, fromSemanticError, fromSnapshot, fromTokenizerError } from "../src/diagnostics";
+import { validate } from "../src/semantic";
+import { merge } from "../src/merge";
+import { Resolver } from "../src/resolver";
+import * as incremental from "../src/incremental";
+import * as typescript from "../src/typescript";
+import * as webidl from "../src/webidl";
+
+// Usage: node check.js [edits] [seed] [--update]
+// Compares the diagnostics of each fixtures/<name>.idl with fixtures/<name>.expected, and with the errors the app shows for it,
+// and the declarations generated for each fixtures/typescript/<name>.idl with fixtures/typescript/<name>.expected.
+// --update rewrites the expected files.
+// Then compares the syntax trees of packrat parsing with those of plain parsing for each fixture,
+// and applies random edits to the fixtures and compares incremental updates with parsing from scratch.
+const args = process.argv.slice(2).filter((arg) => arg !== "--update");
+const update = process.argv.indexOf("--update") >= 0;
+const edits = Number(args[0] || 2000);
+const seed = Number(args[1] || 1);
+const fixtures = path.join(__dirname, "fixtures");
+
+/**
+ * The diagnostics of a text as the command line reports them.
+ * @param source
+ * @return
+ */
+function diagnostics(source: SourceFile): Diagnostic[] {
+	let errors = new Array<TokenizerError>();
+	let tokens = Array.from(attachTrivia(tokenize(source, 0, errors)));
+	let result = webidl.grammar.Definitions(true)(new Cursor(tokens));
+
+	let merged = merge(result.value);
+	let semantic = validate(result.value).concat(merged.errors).map((error) => fromSemanticError(source, error));
+	return errors.map(fromTokenizerError).concat(fromParserErrors(result.errors), semantic);
+}
+
+/**
+ * The diagnostics of a text, each preceded by its code.
+ * @param idl
+ * @return
+ */
+function diagnose(idl: string): string {
+	let source = new SourceFile(idl);
+	return diagnostics(source).map((diagnostic) => `${diagnostic.code}\n${format(source, diagnostic)}\n`).join("\n");
+}
+
+/**
+ * The declarations generated for a text as the command line writes them.
+ * @param idl
+ * @return
+ */
+function generate(idl: string): string {
+	let tokens = Array.from(attachTrivia(tokenize(idl)));
+	let definitions = merge(webidl.grammar.Definitions(true)(new Cursor(tokens)).value).definitions;
+	let generator = new typescript.Generator(new Resolver(definitions));
+	let writer = new typescript.Writer();
+	let emitter = new typescript.Emitter(writer);
+
+	definitions.forEach((def) => def.accept(generator).forEach((stmt) => stmt.accept(emitter)));
+	return writer.toString();
+}
+
+function fixture_names(directory: string): string[] {
+	return fs.readdirSync(directory).filter((file) => path.extname(file) === ".idl").map((file) => path.basename(file, ".idl")).sort();
+}
+
+function check_fixtures(directory: string, names: string[], output: (idl: string) => string): number {
+	let failures = 0;
+
+	for (let name of names) {
+		let idl = fs.readFileSync(path.join(directory, `${name}.idl`), "utf8");
+		let file = path.join(directory, `${name}.expected`);
+		let actual = output(idl);
+
+		if (update) {
+			fs.writeFileSync(file, actual);
+			continue;
+		}
+
+		let expected = fs.existsSync(file) ? fs.readFileSync(file, "utf8") : "";
+
+		if (actual !== expected) {
+			failures += 1;
+			console.error(`fixture '${name}' differs from ${name}.expected:\n${actual}`);
+		}
+	}
+
+	return failures;
+}
+
+/**
+ * Park-Miller generator, the same seed gives the same edits.
+ * @param seed
+ * @return A function returning integers from `0` up to but excluding its argument.
+ */
+function random(seed: number): (limit: number) => number {
+	let state = Math.max(1, Math.floor(seed) % 2147483647);
+
+	return (limit) => {
+		state = state * 16807 % 2147483647;
+		return limit > 0 ? state % limit : 0;
+	};
+}
+
+function dump_token(token: Token): string {
+	let text = (t: Token) => `${t.span.position}:${JSON.stringify(t.span.text)}:${JSON.stringify(t.range)}`;
+	return [TokenKind[token.kind], text(token), ...token.leading.map(text), "|", ...token.trailing.map(text)].join(" ");
+}
+
+function dump_node(value: any): string {
+	if (value === null || value === undefined || typeof value !== "object") {
+		return String(value);
+	} else if (Array.isArray(value)) {
+		return `[${value.map(dump_node).join(", ")}]`;
+	} else if (value instanceof webidl.model.Node) {
+		let node: { [key: string]: any } = value;
+		let fields = Object.keys(node).filter((key) => key !== "tokens").map((key) => `${key}: ${dump_node(node[key])}`);
+		return `${value.constructor.name} ${JSON.stringify(value.range)} { ${fields.join(", ")} }`;
+	} else {
+		return JSON.stringify(value);
+	}
+}
+
+function dump_errors(errors: ParserError[]): string {
+	return errors.map((error) => `${error.expected} ${error.got ? dump_token(error.got) : null}`).join("\n");
+}
+
+function dump(snapshot: incremental.Snapshot): string[] {
+	return [
+		snapshot.source.text,
+		...snapshot.tokens.map(dump_token),
+		JSON.stringify(snapshot.tokenizerErrors),
+		dump_errors(snapshot.parserErrors),
+		snapshot.definitions ? dump_node(snapshot.definitions) : "null"
+	];
+}
+
+function check_incremental(texts: string[]): number {
+	let next = random(seed);
+	let pieces = [" ", "\n", ";", "{", "}", "\"", "/*", "*/", "// comment\n", "interface", "partial ", "attribute long x;", "typedef long T;"];
+	let text = texts.join("\n");
+	let snapshot = incremental.parse(text);
+
+	for (let i = 0; i < edits; i++) {
+		let offset = next(text.length + 1);
+		let length = next(Math.min(10, text.length - offset) + 1);
+		let inserted: string;
+
+		if (next(2) === 0) {
+			inserted = pieces[next(pieces.length)];
+		} else {
+			let start = next(text.length);
+			inserted = text.slice(start, start + next(20));
+		}
+
+		let edit = { offset, length, text: inserted };
+		text = text.slice(0, offset) + inserted + text.slice(offset + length);
+		snapshot = incremental.update(snapshot, edit);
+
+		let expected = dump(incremental.parse(text));
+		let actual = dump(snapshot);
+		let line = expected.findIndex((item, i) => item !== actual[i]);
+
+		if (line < 0 && actual.length !== expected.length) {
+			line = expected.length;
+		}
+
+		if (line >= 0) {
+			console.error(`edit ${i} ${JSON.stringify(edit)} differs from a full parse:\n  incremental: ${actual[line]}\n  full: ${expected[line]}`);
+			return 1;
+		}
+
+		// Keeps the text from growing or shrinking away:
+		if (text.length > 4 * texts.join("\n").length || text.length < 10) {
+			text = texts.join("\n");
+			snapshot = incremental.parse(text);
+		}
+	}
+
+	return 0;
+}
+
+/**
+ * Memoized values are shared by every parse at their token, so the syntax trees of both must be the same.
+ * @param names
+ * @return
+ */
+function check_packrat(names: string[]): number {
+	let failures = 0;
+
+	for (let name of names) {
+		let idl = fs.readFileSync(path.join(fixtures, `${name}.idl`), "utf8");
+		let tokens = Array.from(attachTrivia(tokenize(idl)));
+
+		for (let recover of [false, true]) {
+			let plain = webidl.grammar.Definitions(recover)(new Cursor(tokens));
+			let memoized = packrat(webidl.grammar.Definitions(recover))(new Cursor(tokens));
+
+			if (dump_node(plain.value) !== dump_node(memoized.value) || dump_errors(plain.errors) !== dump_errors(memoized.errors)) {
+				failures += 1;
+				console.error(`fixture '${name}' parses differently with packrat${recover ? " in recovery mode" : ""}`);
+			}
+		}
+	}
+
+	return failures;
+}
+
+/**
+ * The app shows the syntax errors of its snapshot, which must be those of the command line.
+ * @param names
+ * @return
+ */
+function check_app(names: string[]): number {
+	let failures = 0;
+
+	for (let name of names) {
+		let snapshot = incremental.parse(fs.readFileSync(path.join(fixtures, `${name}.idl`), "utf8"));
+		let syntax = diagnostics(snapshot.source).filter((diagnostic) => diagnostic.code === "invalid-token" || diagnostic.code === "unexpected-token");
+		let expected = syntax.map((diagnostic) => format(snapshot.source, diagnostic)).join("\n\n");
+		let actual = fromSnapshot(snapshot).map((diagnostic) => format(snapshot.source, diagnostic)).join("\n\n");
+
+		if (actual !== expected) {
+			failures += 1;
+			console.error(`fixture '${name}' shows other errors in the app:\n${actual}`);
+		}
+	}
+
+	return failures;
+}
+
+let names = fixture_names(fixtures);
+let generated = fixture_names(path.join(fixtures, "typescript"));
+let failures = check_fixtures(fixtures, names, diagnose) + check_fixtures(path.join(fixtures, "typescript"), generated, generate) + check_app(names);
+let count = names.length + generated.length;
+
+console.info(update ? `updated ${count} fixtures` : `${count} fixtures, ${failures} failures`);
+
+let differences = check_packrat(names);
+
+console.info(`${names.length} fixtures parsed with packrat, ${differences} differences`);
+
+let texts = names.map((name) => fs.readFileSync(path.join(fixtures, `${name}.idl`), "utf8"));
+let mismatches = check_incremental(texts);
+
+console.info(`${edits} incremental edits with seed ${seed}, ${mismatches} mismatches`);
+process.exit(failures + differences + mismatches > 0 ? 1 : 0);
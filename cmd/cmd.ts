@@ -4,13 +4,22 @@
 /// <reference path="../src/parser.ts" />
 /// <reference path="../src/webidl.ts" />
 /// <reference path="../src/typescript.ts" />
+/// <reference path="../src/diagnostics.ts" />
+/// <reference path="../src/semantic.ts" />
+/// <reference path="../src/resolver.ts" />
+/// <reference path="../src/merge.ts" />
 "use strict";
 
 import * as fs from "fs";
 import * as jsdom from "jsdom";
 
 import tokenize from "../src/tokenizer";
-import { TokenKind } from "../src/tokenizer";
+import { SourceFile, TokenKind, TokenizerError, attachTrivia } from "../src/tokenizer";
+import { Cursor } from "../src/parser";
+import { format, fromParserErrors, fromSemanticError, fromTokenizerError } from "../src/diagnostics";
+import { validate } from "../src/semantic";
+import { Resolver } from "../src/resolver";
+import { merge } from "../src/merge";
 import * as typescript from "../src/typescript";
 import * as webidl from "../src/webidl";
 
@@ -24,21 +33,30 @@ function extract(doc: Document): string {
 }
 
 function parse(idl: string): webidl.model.Definition[] {
-	let tokens = tokenize(idl);
-	let rest = Array.from(tokens).filter((token) => token.kind != TokenKind.whitespace && token.kind != TokenKind.comment);
-	let parser = webidl.grammar.Definitions();
+	let source = new SourceFile(idl);
+	let errors = new Array<TokenizerError>();
+	let tokens = tokenize(source, 0, errors);
+	let rest = new Cursor(Array.from(attachTrivia(tokens)));
+	let parser = webidl.grammar.Definitions(true);
 	let result = parser(rest);
-	result.success = result.success && result.rest.length === 1 && result.rest[0].kind === TokenKind.eof;
+	result.success = result.success && result.rest.length === 1 && result.rest.current.kind === TokenKind.eof;
+	
+	let merged = merge(result.value);
+	let semantic = validate(result.value).concat(merged.errors).map((error) => fromSemanticError(source, error));
+	
+	errors.map(fromTokenizerError).concat(fromParserErrors(result.errors), semantic).forEach((diagnostic) => {
+		console.error(format(source, diagnostic));
+	});
 	
 	if(result) {
-		return result.value;
+		return merged.definitions;
 	} else {
 		return null;
 	}
 }
 
 function generate(defs: webidl.model.Definition[]): typescript.model.Statement[] {
-	let generator = new typescript.Generator();
+	let generator = new typescript.Generator(new Resolver(defs));
 	return defs.map(def => def.accept(generator)).reduce((list, item) => list.concat(item), []);
 }
 
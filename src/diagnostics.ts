@@ -0,0 +1,146 @@
+/// <reference path="tokenizer.ts" />
+/// <reference path="parser.ts" />
+/// <reference path="semantic.ts" />
+/// <reference path="webidl.ts" />
+/// <reference path="incremental.ts" />
+"use strict";
+
+import { SourceFile, TextRange, Token, TokenizerError } from "./tokenizer";
+import { Cursor, ParserError, describe } from "./parser";
+import { SemanticError } from "./semantic";
+import { Snapshot } from "./incremental";
+import * as webidl from "./webidl";
+
+/**
+ * 
+ */
+export enum DiagnosticSeverity {
+	error,
+	warning,
+	information,
+}
+
+/**
+ * 
+ */
+export interface Diagnostic {
+	/**
+	 * 
+	 */
+	severity: DiagnosticSeverity;
+	/**
+	 * 
+	 */
+	message: string;
+	/**
+	 * `null` if the diagnostic is not about a part of the text.
+	 */
+	range: TextRange;
+	/**
+	 * Identifies the kind of diagnostic, e.g. `unexpected-token`.
+	 */
+	code: string;
+}
+
+/**
+ * @param error
+ * @return
+ */
+export function fromTokenizerError(error: TokenizerError): Diagnostic {
+	return { severity: DiagnosticSeverity.error, message: error.message, range: error.range, code: "invalid-token" };
+}
+
+/**
+ * Merges the errors of alternatives failing at the same token into one diagnostic each.
+ * @param errors
+ * @return
+ */
+export function fromParserErrors(errors: ParserError[]): Diagnostic[] {
+	let groups = new Map<Token, string[]>();
+
+	for (let error of errors) {
+		let expected = groups.get(error.got) || [];
+
+		if (error.expected && expected.indexOf(error.expected) < 0) {
+			expected.push(error.expected);
+		}
+
+		groups.set(error.got, expected);
+	}
+
+	return Array.from(groups).map(([got, expected]) => {
+		let found = describe(got);
+		let message: string;
+
+		if (expected.length === 0) {
+			message = `unexpected ${found}`;
+		} else if (expected.length === 1) {
+			message = `expected ${expected[0]} but found ${found}`;
+		} else {
+			message = `expected one of ${expected.join(", ")} but found ${found}`;
+		}
+
+		return { severity: DiagnosticSeverity.error, message, range: got ? got.range : null, code: "unexpected-token" };
+	});
+}
+
+/**
+ * The syntax errors of a snapshot as the command line reports them.
+ * The tokens are parsed again in recovery mode: a snapshot only keeps the errors up to the first failure,
+ * where recovery merges the expected tokens of all alternatives for a member or definition and goes on after it.
+ * @param snapshot
+ * @return
+ */
+export function fromSnapshot(snapshot: Snapshot): Diagnostic[] {
+	let result = webidl.grammar.Definitions(true)(new Cursor(snapshot.tokens));
+	return snapshot.tokenizerErrors.map(fromTokenizerError).concat(fromParserErrors(result.errors));
+}
+
+/**
+ * @param source The source the definitions with the error were parsed from.
+ * @param error
+ * @return
+ */
+export function fromSemanticError(source: SourceFile, error: SemanticError): Diagnostic {
+	let { position, text } = error.span;
+	let range = position >= 0 ? source.getRange(position, position + text.length) : null;
+	return { severity: DiagnosticSeverity.error, message: error.message, range, code: error.code };
+}
+
+/**
+ * Formats a diagnostic with the line it is about, the line before it and a caret under the range:
+ *
+ *     3:13: error: expected ';' but found 'oops'
+ *       2 |   attribute long x;
+ *     > 3 |   attribute oops oops oops;
+ *         |             ^^^^
+ * @param source
+ * @param diagnostic
+ * @return
+ */
+export function format(source: SourceFile, diagnostic: Diagnostic): string {
+	let severity = DiagnosticSeverity[diagnostic.severity];
+
+	if (!diagnostic.range) {
+		return `${severity}: ${diagnostic.message}`;
+	}
+
+	let { start, end } = diagnostic.range;
+	let first = Math.max(1, start.line - 1);
+	let width = String(start.line).length;
+	let lines = [`${start.line}:${start.column}: ${severity}: ${diagnostic.message}`];
+
+	for (let line = first; line <= start.line; line++) {
+		let marker = line === start.line ? ">" : " ";
+		let number = String(line);
+		lines.push(`${marker} ${" ".repeat(width - number.length)}${number} | ${source.getLine(line)}`);
+	}
+
+	// Ranges over several lines are underlined to the end of the first one:
+	let text = source.getLine(start.line);
+	let length = end.line === start.line ? end.column - start.column : text.length - start.column + 1;
+	let indentation = text.slice(0, start.column - 1).replace(/[^\t]/g, " ");
+	lines.push(`  ${" ".repeat(width)} | ${indentation}${"^".repeat(Math.max(1, length))}`);
+
+	return lines.join("\n");
+}
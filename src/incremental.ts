@@ -0,0 +1,214 @@
+/// <reference path="tokenizer.ts" />
+/// <reference path="parser.ts" />
+/// <reference path="webidl.ts" />
+"use strict";
+
+import tokenize from "./tokenizer";
+import { SourceFile, Token, TokenKind, TokenizerError, attachTrivia } from "./tokenizer";
+import { Cursor, ParserError } from "./parser";
+import * as webidl from "./webidl";
+
+/**
+ *
+ */
+export interface TextEdit {
+	/**
+	 * Offset of the edit in the previous text.
+	 */
+	offset: number;
+	/**
+	 * Number of characters removed at the offset.
+	 */
+	length: number;
+	/**
+	 * Text inserted at the offset.
+	 */
+	text: string;
+}
+
+/**
+ * The tokens and definitions of a text.
+ */
+export interface Snapshot {
+	/**
+	 *
+	 */
+	source: SourceFile;
+	/**
+	 * Tokens with trivia attached, ending in an eof token.
+	 */
+	tokens: Token[];
+	/**
+	 *
+	 */
+	tokenizerErrors: TokenizerError[];
+	/**
+	 * `null` if the text does not parse.
+	 */
+	definitions: webidl.model.Definition[];
+	/**
+	 *
+	 */
+	parserErrors: ParserError[];
+}
+
+function full_start(token: Token): number {
+	return token.leading.length > 0 ? token.leading[0].span.position : token.span.position;
+}
+
+function full_end(token: Token): number {
+	let last = token.trailing.length > 0 ? token.trailing[token.trailing.length - 1] : token;
+	return last.span.position + last.span.text.length;
+}
+
+function shift(token: Token, delta: number, source: SourceFile): void {
+	for (let t of [token, ...token.leading, ...token.trailing]) {
+		let length = t.range.end.offset - t.range.start.offset;
+		t.span.position += delta;
+		t.range = source.getRange(t.span.position, t.span.position + length);
+	}
+}
+
+function parse_tokens(source: SourceFile, tokens: Token[], tokenizerErrors: TokenizerError[]): Snapshot {
+	let result = webidl.grammar.Definitions()(new Cursor(tokens));
+	let success = result.success && result.rest.length === 1 && result.rest.current.kind === TokenKind.eof;
+	let definitions = success ? result.value : null;
+
+	return { source, tokens, tokenizerErrors, definitions, parserErrors: result.errors };
+}
+
+/**
+ * @param text
+ * @return
+ */
+export function parse(text: string): Snapshot {
+	let source = new SourceFile(text);
+	let errors = new Array<TokenizerError>();
+	let tokens = Array.from(attachTrivia(tokenize(source, 0, errors)));
+
+	return parse_tokens(source, tokens, errors);
+}
+
+/**
+ * Computes the smallest edit turning one text into another.
+ * @param previous
+ * @param text
+ * @return
+ */
+export function diff(previous: string, text: string): TextEdit {
+	let length = Math.min(previous.length, text.length);
+	let prefix = 0;
+	let suffix = 0;
+
+	while (prefix < length && previous[prefix] === text[prefix]) {
+		prefix += 1;
+	}
+
+	while (suffix < length - prefix && previous[previous.length - suffix - 1] === text[text.length - suffix - 1]) {
+		suffix += 1;
+	}
+
+	return { offset: prefix, length: previous.length - prefix - suffix, text: text.slice(prefix, text.length - suffix) };
+}
+
+/**
+ * Applies an edit, re-scanning only the tokens and re-parsing only the definitions around it.
+ * The result is the same as parsing the edited text from scratch.
+ * Tokens and definitions after the edit are reused and moved in place, the previous snapshot is no longer valid afterwards.
+ * @param previous
+ * @param edit
+ * @return
+ */
+export function update(previous: Snapshot, edit: TextEdit): Snapshot {
+	let old = previous.source.text;
+	let source = new SourceFile(old.slice(0, edit.offset) + edit.text + old.slice(edit.offset + edit.length));
+	let delta = edit.text.length - edit.length;
+	let tokens = previous.tokens;
+
+	// Scanning restarts one token before the first token touched by the edit, the edit may join the two:
+	let first = 0;
+
+	while (first < tokens.length - 1 && full_end(tokens[first]) < edit.offset) {
+		first += 1;
+	}
+
+	first = Math.max(0, first - 1);
+
+	// Unterminated strings and comments end wherever the next quote or `*/` is, which the edit may have added:
+	let unterminated = previous.tokenizerErrors.find((error) => error.span.position < tokens[first].span.position && (error.span.text[0] === "\"" || error.span.text.startsWith("/*")));
+
+	if (unterminated) {
+		first = tokens.findIndex((token) => token.span === unterminated.span);
+	}
+
+	let start = full_start(tokens[first]);
+	let scanned = new Array<Token>();
+	let errors = new Array<TokenizerError>();
+	let resume = tokens.length;
+	let candidate = first;
+
+	// Scanning stops as soon as a token after the edit lines up with a previous token, all further tokens are the same:
+	for (let token of attachTrivia(tokenize(source, start, errors))) {
+		if (full_start(token) >= edit.offset + edit.text.length) {
+			while (candidate < tokens.length && (full_start(tokens[candidate]) < edit.offset + edit.length || full_start(tokens[candidate]) + delta < full_start(token))) {
+				candidate += 1;
+			}
+
+			let match = tokens[candidate];
+
+			if (match && full_start(match) + delta === full_start(token) && match.span.position + delta === token.span.position && match.kind === token.kind && match.span.text === token.span.text) {
+				resume = candidate;
+				break;
+			}
+		}
+
+		scanned.push(token);
+	}
+
+	let reused = tokens.slice(resume);
+	let before = previous.tokenizerErrors.filter((error) => error.span.position < start);
+	let after = reused.length > 0 ? previous.tokenizerErrors.filter((error) => error.span.position >= full_start(reused[0])) : [];
+	let definitions = previous.definitions || [];
+	let head = definitions.filter((def) => def.tokens[def.tokens.length - 1].span.position < tokens[first].span.position);
+	let tail = reused.length > 0 ? definitions.filter((def) => def.tokens[0].span.position >= reused[0].span.position) : [];
+
+	reused.forEach((token) => shift(token, delta, source));
+
+	// Error spans are shared with their tokens, which have been moved already:
+	after.forEach((error) => error.range = source.getRange(error.span.position, error.span.position + error.span.text.length));
+
+	// The scanner runs ahead of the last token it returned:
+	if (reused.length > 0) {
+		errors = errors.filter((error) => error.span.position < reused[0].span.position);
+	}
+
+	let next = tokens.slice(0, first).concat(scanned, reused);
+	let tokenizerErrors = before.concat(errors, after);
+
+	if (!previous.definitions) {
+		return parse_tokens(source, next, tokenizerErrors);
+	}
+
+	// Definitions cover the tokens without gaps:
+	let index = head.reduce((count, def) => count + def.tokens.length, 0);
+	let rest = new Cursor(next, index);
+	let parser = webidl.grammar.DefinitionWithExtendedAttributes();
+	let middle = new Array<webidl.model.Definition>();
+
+	while (rest.current.kind !== TokenKind.eof && (tail.length === 0 || rest.current !== tail[0].tokens[0])) {
+		let result = parser(rest);
+
+		if (!result.success) {
+			return parse_tokens(source, next, tokenizerErrors);
+		}
+
+		middle.push(result.value);
+		rest = result.rest;
+
+		while (tail.length > 0 && tail[0].tokens[0].span.position < rest.current.span.position) {
+			tail.shift();
+		}
+	}
+
+	return { source, tokens: next, tokenizerErrors, definitions: head.concat(middle, tail), parserErrors: [] };
+}
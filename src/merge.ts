@@ -0,0 +1,162 @@
+/// <reference path="webidl.ts" />
+/// <reference path="resolver.ts" />
+/// <reference path="semantic.ts" />
+"use strict";
+
+import * as webidl from "./webidl";
+import { isNamed, isPartial } from "./resolver";
+import { SemanticError, error, conflicts } from "./semantic";
+
+/**
+ *
+ */
+export interface Merged {
+	/**
+	 * One definition per name in place of its first fragment, without `implements` or `includes` statements.
+	 */
+	definitions: webidl.model.Definition[];
+	/**
+	 * The definition each member of a merged definition was declared in, a partial one or the one implemented or included.
+	 */
+	fragments: Map<webidl.model.Node, webidl.model.Definition>;
+	/**
+	 *
+	 */
+	errors: SemanticError[];
+}
+
+type Member = webidl.model.InterfaceMember | webidl.model.DictionaryMember;
+
+function members(def: webidl.model.Definition): Member[] {
+	if (def instanceof webidl.model.InterfaceDefinition || def instanceof webidl.model.InterfaceMixinDefinition || def instanceof webidl.model.NamespaceDefinition) {
+		return def.members;
+	} else if (def instanceof webidl.model.DictionaryDefinition) {
+		return def.members;
+	} else {
+		return [];
+	}
+}
+
+function consolidate(primary: webidl.model.Definition, members: Member[]): webidl.model.Definition {
+	let def: webidl.model.Definition;
+
+	if (primary instanceof webidl.model.InterfaceDefinition) {
+		def = new webidl.model.InterfaceDefinition(primary.identifier, primary.inheritance, <webidl.model.InterfaceMember[]>members, false, primary.callback);
+	} else if (primary instanceof webidl.model.DictionaryDefinition) {
+		def = new webidl.model.DictionaryDefinition(primary.identifier, primary.inheritance, <webidl.model.DictionaryMember[]>members);
+	} else if (primary instanceof webidl.model.InterfaceMixinDefinition) {
+		def = new webidl.model.InterfaceMixinDefinition(primary.identifier, <webidl.model.InterfaceMember[]>members);
+	} else if (primary instanceof webidl.model.NamespaceDefinition) {
+		def = new webidl.model.NamespaceDefinition(primary.identifier, <webidl.model.InterfaceMember[]>members);
+	} else {
+		return primary;
+	}
+
+	// Extended attributes of partial definitions are about their members only:
+	def.attributes = primary.attributes;
+	def.tokens = primary.tokens;
+	return def;
+}
+
+/**
+ * Folds partial definitions into their primary definition, and the members of implemented interfaces and included mixins into the interface.
+ * The given definitions are not changed, merged definitions are new nodes sharing the members.
+ * @param defs
+ * @return
+ */
+export function merge(defs: webidl.model.Definition[]): Merged {
+	let groups = new Map<string, webidl.model.Definition[]>();
+	let statements = new Array<webidl.model.ImplementsStatement | webidl.model.IncludesStatement>();
+	let errors = new Array<SemanticError>();
+
+	for (let def of defs) {
+		if (def instanceof webidl.model.ImplementsStatement || def instanceof webidl.model.IncludesStatement) {
+			statements.push(def);
+		} else if (isNamed(def)) {
+			let group = groups.get(def.identifier.text) || [];
+			group.push(def);
+			groups.set(def.identifier.text, group);
+		}
+	}
+
+	let merged = new Map<string, webidl.model.Definition>();
+	let fragments = new Map<webidl.model.Node, webidl.model.Definition>();
+	let names = new Map<string, Map<string, Member>>();
+
+	// Members conflicting with one of another fragment are left out:
+	let add = (name: string, member: Member, fragment: webidl.model.Definition) => {
+		let scope = names.get(name) || new Map<string, Member>();
+		names.set(name, scope);
+
+		// Duplicates within a fragment are reported by `validate`:
+		let previous = member.identifier ? scope.get(member.identifier.text) : null;
+
+		if (previous && fragments.get(previous) !== fragment && conflicts(previous, member)) {
+			errors.push(error("duplicate-member", member.identifier, `member '${member.identifier.text}' of '${name}' is already defined in another fragment`));
+			return false;
+		} else if (member.identifier && !previous) {
+			scope.set(member.identifier.text, member);
+		}
+
+		fragments.set(member, fragment);
+		return true;
+	};
+
+	for (let [name, group] of Array.from(groups)) {
+		// Further primary definitions are reported by `validate`:
+		let primaries = group.filter((def) => !isPartial(def));
+		let primary = primaries[0] || group[0];
+
+		if (primaries.length === 0) {
+			errors.push(error("missing-primary", primary.identifier, `partial definition of '${name}' without a primary definition`));
+		}
+
+		let parts = [primary].concat(group.filter((def) => isPartial(def) && def !== primary));
+		let list = new Array<Member>();
+
+		for (let fragment of parts) {
+			if (fragment.constructor !== primary.constructor) {
+				errors.push(error("conflicting-definition", fragment.identifier, `partial definition of '${name}' is not of the same kind as its primary definition`));
+				continue;
+			}
+
+			list.push(...members(fragment).filter((member) => add(name, member, fragment)));
+		}
+
+		merged.set(name, consolidate(primary, list));
+	}
+
+	for (let statement of statements) {
+		let target = merged.get(statement.identifier.text);
+		let source = merged.get(statement.name.text);
+
+		// Undefined names are reported by `validate`:
+		if (!(target instanceof webidl.model.InterfaceDefinition) || !source || source === target) {
+			continue;
+		}
+
+		let list = (<webidl.model.InterfaceDefinition>target).members;
+
+		for (let member of <webidl.model.InterfaceMember[]>members(source)) {
+			if (list.indexOf(member) < 0 && add(target.identifier.text, member, fragments.get(member) || source)) {
+				list.push(member);
+			}
+		}
+	}
+
+	let seen = new Set<string>();
+	let result = new Array<webidl.model.Definition>();
+
+	for (let def of defs) {
+		if (def instanceof webidl.model.ImplementsStatement || def instanceof webidl.model.IncludesStatement) {
+			continue;
+		} else if (!isNamed(def)) {
+			result.push(def);
+		} else if (!seen.has(def.identifier.text)) {
+			seen.add(def.identifier.text);
+			result.push(merged.get(def.identifier.text));
+		}
+	}
+
+	return { definitions: result, fragments, errors };
+}
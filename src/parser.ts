@@ -3,6 +3,57 @@
 
 import { TextSpan, Token, TokenKind } from "./tokenizer";
 
+/**
+ * A position in a list of tokens, moving it creates a new cursor over the same list.
+ */
+export class Cursor {
+	tokens: Token[];
+	index: number;
+
+	constructor(tokens: Token[], index: number = 0) {
+		this.tokens = tokens;
+		this.index = index;
+	}
+
+	/**
+	 * The token at the position, `undefined` at the end.
+	 */
+	get current(): Token {
+		return this.tokens[this.index];
+	}
+
+	/**
+	 * Number of tokens from the position to the end.
+	 */
+	get length(): number {
+		return this.tokens.length - this.index;
+	}
+
+	/**
+	 * @param offset
+	 * @return
+	 */
+	peek(offset: number): Token {
+		return this.tokens[this.index + offset];
+	}
+
+	/**
+	 * @param count
+	 * @return
+	 */
+	advance(count: number = 1): Cursor {
+		return new Cursor(this.tokens, Math.min(this.index + count, this.tokens.length));
+	}
+
+	/**
+	 * @param end A cursor over the same tokens.
+	 * @return The tokens from the position up to the end cursor.
+	 */
+	until(end: Cursor): Token[] {
+		return this.tokens.slice(this.index, end.index);
+	}
+}
+
 /**
  * 
  */
@@ -22,7 +73,7 @@ export interface IParserResult<T> {
 	/**
 	 * 
 	 */
-	rest: Token[];
+	rest: Cursor;
 	/**
 	 * 
 	 */
@@ -34,9 +85,9 @@ export interface IParserResult<T> {
  */
 export interface ParserError {
 	/**
-	 * 
+	 * Description of the expected token or rule, e.g. `'{'`, `identifier` or `type`.
 	 */
-	expected: Token;
+	expected: string;
 	/**
 	 * 
 	 */
@@ -51,7 +102,7 @@ export interface IParser<T> {
 	 * @param tokens
 	 * @return 
 	 */
-	(tokens: Token[]): IParserResult<T>;
+	(tokens: Cursor): IParserResult<T>;
 }
 
 /**
@@ -59,7 +110,7 @@ export interface IParser<T> {
  * @return 
  */
 export function many<T>(parser: IParser<T>): IParser<T[]> {
-	return (tokens) => {
+	return traced("many", (tokens) => {
 		let rest = tokens;
 		let values = new Array<T>();
 		let consumed = false;
@@ -77,7 +128,7 @@ export function many<T>(parser: IParser<T>): IParser<T[]> {
 				return { success: true, consumed, value: values, rest, errors: [] };
 			}
 		}
-	};
+	});
 }
 
 /**
@@ -86,7 +137,7 @@ export function many<T>(parser: IParser<T>): IParser<T[]> {
  * @return 
  */
 export function optional<T>(parser: IParser<T>, fallback: T = null): IParser<T> {
-	return (tokens) => {
+	return traced("optional", (tokens) => {
 		let result = parser(tokens);
 
 		if (result.success || result.consumed) {
@@ -94,7 +145,7 @@ export function optional<T>(parser: IParser<T>, fallback: T = null): IParser<T>
 		} else {
 			return { success: true, consumed: false, value: fallback, rest: tokens, errors: [] };
 		}
-	};
+	});
 }
 
 /**
@@ -112,7 +163,7 @@ export function constant<T>(value: T): IParser<T> {
  * @return 
  */
 export function create<T>(f: () => IterableIterator<IParser<any> | T>): IParser<T> {
-	return (tokens) => {
+	return traced("create", (tokens) => {
 		let generator = f();
 		let value: any = undefined; // First call to next must be using undefined as per spec.
 		let rest = tokens;
@@ -138,7 +189,7 @@ export function create<T>(f: () => IterableIterator<IParser<any> | T>): IParser<
 				return { success: false, consumed, value: undefined, rest: tokens, errors: errors.concat(result.errors) };
 			}
 		}
-	};
+	});
 }
 
 /**
@@ -172,7 +223,7 @@ export function combine<T1, T2>(p1: IParser<T1>, p2: IParser<T2>): IParser<[T1,
  * @return 
  */
 export function choose<T>(...parsers: IParser<T>[]): IParser<T> {
-	return (tokens) => {
+	return traced("choose", (tokens) => {
 		let errors = new Array<ParserError>();
 
 		for (let parser of parsers) {
@@ -186,12 +237,19 @@ export function choose<T>(...parsers: IParser<T>[]): IParser<T> {
 		}
 
 		return { success: false, consumed: false, value: undefined, rest: tokens, errors };
-	}
+	});
 }
 
+/**
+ * Like `choose`, but goes on with the next parser also after one failed having consumed tokens.
+ * If all fail, the failure has consumed tokens if any of them did and keeps the errors of those getting furthest.
+ * @param parsers
+ * @return
+ */
 export function choose_backtracking<T>(...parsers: IParser<T>[]): IParser<T> {
-	return (tokens) => {
+	return traced("choose_backtracking", (tokens) => {
 		let errors = new Array<ParserError>();
+		let consumed = false;
 
 		for (let parser of parsers) {
 			let result = parser(tokens);
@@ -200,11 +258,12 @@ export function choose_backtracking<T>(...parsers: IParser<T>[]): IParser<T> {
 				return result;
 			} else {
 				errors = errors.concat(result.errors);
+				consumed = consumed || result.consumed;
 			}
 		}
 
-		return { success: false, consumed: false, value: undefined, rest: tokens, errors };
-	}
+		return { success: false, consumed, value: undefined, rest: tokens, errors: furthest(errors) };
+	});
 }
 
 /**
@@ -241,19 +300,17 @@ export function exists<T>(parser: IParser<T>): IParser<boolean> {
  * @return
  */
 export function name<T>(parser: IParser<T>, name: string): IParser<T> {
-	return (tokens) => {
+	return traced(`name(${name})`, (tokens) => {
 		let result = parser(tokens);
 
 		if (result.errors.length > 0) {
-			let span = { text: name, position: -1 };
-			let expected = { kind: TokenKind.eof, span };
 			let got = result.errors[0].got;
-			let error = { expected, got };
+			let error = { expected: name, got };
 			result.errors = [error];
 		}
 
 		return result;
-	}
+	});
 }
 
 /**
@@ -263,22 +320,262 @@ export function name<T>(parser: IParser<T>, name: string): IParser<T> {
  */
 export function token(kind: TokenKind, text?: string): IParser<TextSpan> {
 	return (tokens) => {
-		if (tokens && tokens.length > 0 && tokens[0].kind === kind && (typeof (text) === "undefined" || tokens[0].span.text === text)) {
-			let rest = tokens.slice(1);
-			return { success: true, consumed: true, value: tokens[0].span, rest, errors: [] };
+		let current = tokens.current;
+
+		if (current && current.kind === kind && (typeof (text) === "undefined" || current.span.text === text)) {
+			return { success: true, consumed: true, value: current.span, rest: tokens.advance(), errors: [] };
 		} else {
-			let span = { text, position: -1 };
-			let expected = { kind, span };
-			let error = { expected, got: tokens[0] };
+			let expected = typeof (text) === "undefined" ? TokenKind[kind] : `'${text}'`;
+			let error = { expected, got: current };
 
 			return { success: false, consumed: false, value: undefined, rest: tokens, errors: [error] };
 		}
 	};
 }
 
+/**
+ * Turns a failure into a value for the skipped tokens, so that parsing can go on after them.
+ * @param parser
+ * @param skip Number of tokens to skip after a failure, failures are kept when `0`.
+ * @param fallback Creates the value from the skipped tokens and the errors of the failure.
+ * @return
+ */
+export function recover<T>(parser: IParser<T>, skip: (tokens: Cursor) => number, fallback: (skipped: Token[], errors: ParserError[]) => T): IParser<T> {
+	return (tokens) => {
+		let result = parser(tokens);
+
+		if (result.success) {
+			return result;
+		}
+
+		let count = skip(tokens);
+
+		if (count === 0) {
+			return result;
+		}
+
+		let rest = tokens.advance(count);
+		let value = fallback(tokens.until(rest), result.errors);
+		return { success: true, consumed: true, value, rest, errors: [] };
+	};
+}
+
+/**
+ * Keeps the errors at the token the parser got furthest to, the others are from alternatives that failed earlier.
+ * @param errors
+ * @return
+ */
+export function furthest(errors: ParserError[]): ParserError[] {
+	let position = Math.max(...errors.map((error) => error.got ? error.got.span.position : -1));
+	return errors.filter((error) => (error.got ? error.got.span.position : -1) === position);
+}
+
+/**
+ * The results of memoized parsers during a parse inside of `packrat`, by the index of the token they started at.
+ */
+interface Memo {
+	/**
+	 * The tokens of the parse, results for other tokens are not cached.
+	 */
+	tokens: Token[];
+	/**
+	 *
+	 */
+	results: Map<IParser<any>, IParserResult<any>[]>;
+}
+
+let memo: Memo = null;
+
+/**
+ * Caches the results of a parser by the index of the token it starts at, only while running inside of `packrat`.
+ * Use it for rules that are tried more than once at the same token, values of the results are shared and must not be changed by callers.
+ * @param parser
+ * @return
+ */
+export function memoize<T>(parser: IParser<T>): IParser<T> {
+	let memoized: IParser<T> = (tokens) => {
+		if (!memo || memo.tokens !== tokens.tokens) {
+			return parser(tokens);
+		}
+
+		let results = memo.results.get(memoized);
+
+		if (!results) {
+			results = new Array<IParserResult<any>>(tokens.tokens.length + 1);
+			memo.results.set(memoized, results);
+		}
+
+		let result = results[tokens.index];
+
+		if (!result) {
+			result = parser(tokens);
+			results[tokens.index] = result;
+		}
+
+		// Callers may replace the errors of the result:
+		return { success: result.success, consumed: result.consumed, value: result.value, rest: result.rest, errors: result.errors };
+	};
+
+	return memoized;
+}
+
+/**
+ * Runs a parser with the results of memoized parsers cached for the duration of the call, each call has its own cache.
+ * Each memoized parser then runs at most once per token.
+ * @param parser
+ * @return
+ */
+export function packrat<T>(parser: IParser<T>): IParser<T> {
+	return (tokens) => {
+		let previous = memo;
+		memo = { tokens: tokens.tokens, results: new Map<IParser<any>, IParserResult<any>[]>() };
+
+		try {
+			return parser(tokens);
+		} finally {
+			memo = previous;
+		}
+	};
+}
+
+/**
+ * A call of a parser, as recorded by `trace`.
+ */
+export interface TraceNode {
+	/**
+	 * The combinator or rule, e.g. `choose` or `Type`.
+	 */
+	label: string;
+	/**
+	 * Index of the token the parser started at.
+	 */
+	start: number;
+	/**
+	 * Index of the token the parser stopped at.
+	 */
+	end: number;
+	/**
+	 * 
+	 */
+	success: boolean;
+	/**
+	 * 
+	 */
+	consumed: boolean;
+	/**
+	 * 
+	 */
+	errors: ParserError[];
+	/**
+	 * Calls made by the parser, in order.
+	 */
+	children: TraceNode[];
+}
+
+let tracer: TraceNode = null;
+
+/**
+ * Records the calls of a parser while running inside of `trace`.
+ * @param label
+ * @param parser
+ * @return
+ */
+export function traced<T>(label: string, parser: IParser<T>): IParser<T> {
+	return (tokens) => {
+		if (!tracer) {
+			return parser(tokens);
+		}
+
+		let parent = tracer;
+		let node: TraceNode = { label, start: tokens.index, end: tokens.index, success: false, consumed: false, errors: [], children: [] };
+		parent.children.push(node);
+		tracer = node;
+
+		try {
+			let result = parser(tokens);
+			node.end = result.rest.index;
+			node.success = result.success;
+			node.consumed = result.consumed;
+			node.errors = result.errors;
+			return result;
+		} finally {
+			tracer = parent;
+		}
+	};
+}
+
+/**
+ * Runs a parser with the calls of traced parsers recorded as a tree.
+ * @param parser
+ * @param calls Receives the outermost calls of every run.
+ * @return
+ */
+export function trace<T>(parser: IParser<T>, calls: TraceNode[]): IParser<T> {
+	return (tokens) => {
+		let previous = tracer;
+		tracer = { label: null, start: tokens.index, end: tokens.index, success: false, consumed: false, errors: [], children: calls };
+
+		try {
+			return parser(tokens);
+		} finally {
+			tracer = previous;
+		}
+	};
+}
+
+/**
+ * Describes the token found in place of an expected one, for messages.
+ * @param token `null` if there was no token.
+ * @return
+ */
+export function describe(token: Token): string {
+	if (!token) {
+		return "nothing";
+	} else if (token.kind === TokenKind.eof) {
+		return "end of file";
+	} else {
+		return `'${token.span.text}'`;
+	}
+}
+
+/**
+ * Prints a trace as indented lines, one per call.
+ * @param calls
+ * @param indent
+ * @return
+ */
+export function printTrace(calls: TraceNode[], indent: string = ""): string {
+	return calls.map((call) => {
+		let line = `${indent}${call.label} [${call.start}, ${call.end}) ${call.success ? "success" : "failure"}${call.consumed ? ", consumed" : ""}`;
+
+		if (!call.success && call.errors.length > 0) {
+			let got = call.errors[0].got;
+			line += ` expected ${call.errors.map((error) => error.expected).join(", ")} but found ${describe(got)}${got ? ` (${got.range.start.line}:${got.range.start.column})` : ""}`;
+		}
+
+		if (call.children.length > 0) {
+			line += "\n" + printTrace(call.children, indent + "  ");
+		}
+
+		return line;
+	}).join("\n");
+}
+
+/**
+ * Converts a trace to plain data for `JSON.stringify`, tokens are replaced by their text and position.
+ * @param calls
+ * @return
+ */
+export function traceToJSON(calls: TraceNode[]): any[] {
+	return calls.map((call) => {
+		let errors = call.errors.map((error) => ({ expected: error.expected, got: error.got ? error.got.span.text : null, position: error.got ? error.got.range.start : null }));
+		return { label: call.label, start: call.start, end: call.end, success: call.success, consumed: call.consumed, errors, children: traceToJSON(call.children) };
+	});
+}
+
 export function fail<T>(): IParser<T> {
 	return (tokens) => {
-		let error = { expected: <Token>null, got: <Token>null };
+		let error = { expected: <string>null, got: <Token>null };
 		return { success: false, consumed: false, value: undefined, rest: tokens, errors: [error] };
 	};
 }
\ No newline at end of file
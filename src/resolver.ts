@@ -0,0 +1,308 @@
+/// <reference path="tokenizer.ts" />
+/// <reference path="parser.ts" />
+/// <reference path="webidl.ts" />
+"use strict";
+
+import tokenize from "./tokenizer";
+import { TextSpan, KEYWORDS, attachTrivia } from "./tokenizer";
+import { Cursor } from "./parser";
+import * as webidl from "./webidl";
+
+function flatten<T>(lists: T[][]): T[] {
+	return lists.reduce((list, item) => {
+		return list.concat(item);
+	}, []);
+}
+
+let definitions: webidl.model.Definition[] = null;
+
+/**
+ * The definitions of `webidl.COMMON`, parsed once.
+ * @return
+ */
+export function common(): webidl.model.Definition[] {
+	if (!definitions) {
+		let tokens = Array.from(attachTrivia(tokenize(webidl.COMMON)));
+		definitions = webidl.grammar.Definitions()(new Cursor(tokens)).value;
+	}
+
+	return definitions;
+}
+
+/**
+ * Whether a definition can be referred to by its name, statements and error nodes can not.
+ * @param def
+ * @return
+ */
+export function isNamed(def: webidl.model.Definition): boolean {
+	return !!def.identifier && !(def instanceof webidl.model.ErrorNode || def instanceof webidl.model.ImplementsStatement || def instanceof webidl.model.IncludesStatement);
+}
+
+/**
+ * @param def
+ * @return
+ */
+export function isPartial(def: webidl.model.Definition): boolean {
+	if (def instanceof webidl.model.InterfaceDefinition || def instanceof webidl.model.DictionaryDefinition || def instanceof webidl.model.InterfaceMixinDefinition || def instanceof webidl.model.NamespaceDefinition) {
+		return def.partial;
+	} else {
+		return false;
+	}
+}
+
+/**
+ * Collects the names a node refers to.
+ */
+class References implements webidl.ISyntaxVisitor<TextSpan[]> {
+	private args(args: webidl.model.Argument[]): TextSpan[] {
+		return flatten(args.map((arg) => arg.accept(this)));
+	}
+
+	private type(type: webidl.model.Type): TextSpan[] {
+		return type ? type.accept(this) : [];
+	}
+
+	private members(members: webidl.model.Node[]): TextSpan[] {
+		return flatten(members.map((mem) => mem.accept(this)));
+	}
+
+	visitExtendedAttribute(attr: webidl.model.ExtendedAttribute): TextSpan[] {
+		return [];
+	}
+
+	visitExtendedAttributeArgList(attr: webidl.model.ExtendedAttributeArgList): TextSpan[] {
+		return this.args(attr.args);
+	}
+
+	visitExtendedAttributeIdent(attr: webidl.model.ExtendedAttributeIdent): TextSpan[] {
+		return [];
+	}
+
+	visitExtendedAttributeIdentList(attr: webidl.model.ExtendedAttributeIdentList): TextSpan[] {
+		return [];
+	}
+
+	visitExtendedAttributeNamedArgList(attr: webidl.model.ExtendedAttributeNamedArgList): TextSpan[] {
+		return this.args(attr.args);
+	}
+
+	visitExtendedAttributeWildcard(attr: webidl.model.ExtendedAttributeWildcard): TextSpan[] {
+		return [];
+	}
+
+	visitExtendedAttributeLiteral(attr: webidl.model.ExtendedAttributeLiteral): TextSpan[] {
+		return [];
+	}
+
+	visitExtendedAttributeRaw(attr: webidl.model.ExtendedAttributeRaw): TextSpan[] {
+		return [];
+	}
+
+	visitErrorNode(node: webidl.model.ErrorNode): TextSpan[] {
+		return [];
+	}
+
+	visitErrorMember(mem: webidl.model.ErrorMember): TextSpan[] {
+		return [];
+	}
+
+	visitErrorDictionaryMember(mem: webidl.model.ErrorDictionaryMember): TextSpan[] {
+		return [];
+	}
+
+	visitCallbackDefinition(def: webidl.model.CallbackDefinition): TextSpan[] {
+		return [...this.type(def.rtype), ...this.args(def.args)];
+	}
+
+	visitInterfaceDefinition(def: webidl.model.InterfaceDefinition): TextSpan[] {
+		let inheritance = def.inheritance ? [def.inheritance] : [];
+		return [...inheritance, ...this.members(def.attributes || []), ...this.members(def.members)];
+	}
+
+	visitDictionaryDefinition(def: webidl.model.DictionaryDefinition): TextSpan[] {
+		let inheritance = def.inheritance ? [def.inheritance] : [];
+		return [...inheritance, ...this.members(def.members)];
+	}
+
+	visitEnumDefinition(def: webidl.model.EnumDefinition): TextSpan[] {
+		return [];
+	}
+
+	visitTypedef(def: webidl.model.Typedef): TextSpan[] {
+		return this.type(def.type);
+	}
+
+	visitImplementsStatement(def: webidl.model.ImplementsStatement): TextSpan[] {
+		return [def.identifier, def.name];
+	}
+
+	visitInterfaceMixinDefinition(def: webidl.model.InterfaceMixinDefinition): TextSpan[] {
+		return this.members(def.members);
+	}
+
+	visitIncludesStatement(def: webidl.model.IncludesStatement): TextSpan[] {
+		return [def.identifier, def.name];
+	}
+
+	visitNamespaceDefinition(def: webidl.model.NamespaceDefinition): TextSpan[] {
+		return this.members(def.members);
+	}
+
+	visitConstMember(mem: webidl.model.ConstMember): TextSpan[] {
+		return this.type(mem.type);
+	}
+
+	visitAttributeMember(mem: webidl.model.AttributeMember): TextSpan[] {
+		return this.type(mem.type);
+	}
+
+	visitOperationMember(mem: webidl.model.OperationMember): TextSpan[] {
+		return [...this.type(mem.rtype), ...this.args(mem.args)];
+	}
+
+	visitConstructorMember(mem: webidl.model.ConstructorMember): TextSpan[] {
+		return this.args(mem.args);
+	}
+
+	visitArgument(arg: webidl.model.Argument): TextSpan[] {
+		return this.type(arg.type);
+	}
+
+	visitStaticMember(mem: webidl.model.StaticMember): TextSpan[] {
+		return mem.member.accept(this);
+	}
+
+	visitIterableMember(mem: webidl.model.IterableMember): TextSpan[] {
+		return [...this.type(mem.key), ...this.type(mem.value), ...this.args(mem.args)];
+	}
+
+	visitMaplikeMember(mem: webidl.model.MaplikeMember): TextSpan[] {
+		return [...this.type(mem.key), ...this.type(mem.value)];
+	}
+
+	visitSetlikeMember(mem: webidl.model.SetlikeMember): TextSpan[] {
+		return this.type(mem.value);
+	}
+
+	visitSerializerMember(mem: webidl.model.SerializerMember): TextSpan[] {
+		return mem.operation ? mem.operation.accept(this) : [];
+	}
+
+	visitStringifierMember(mem: webidl.model.StringifierMember): TextSpan[] {
+		return [];
+	}
+
+	visitDictionaryMember(mem: webidl.model.DictionaryMember): TextSpan[] {
+		return this.type(mem.type);
+	}
+
+	visitSimpleType(type: webidl.model.SimpleType): TextSpan[] {
+		// Keywords are built-in types, anything else is an identifier:
+		return KEYWORDS.indexOf(type.span.text) >= 0 ? [] : [type.span];
+	}
+
+	visitNullableType(type: webidl.model.NullableType): TextSpan[] {
+		return type.type.accept(this);
+	}
+
+	visitSequenceType(type: webidl.model.SequenceType): TextSpan[] {
+		return type.type.accept(this);
+	}
+
+	visitFrozenArrayType(type: webidl.model.FrozenArrayType): TextSpan[] {
+		return type.type.accept(this);
+	}
+
+	visitPromiseType(type: webidl.model.PromiseType): TextSpan[] {
+		return this.type(type.type);
+	}
+
+	visitRecordType(type: webidl.model.RecordType): TextSpan[] {
+		return [...type.key.accept(this), ...type.value.accept(this)];
+	}
+
+	visitUnionType(type: webidl.model.UnionType): TextSpan[] {
+		return flatten(type.types.map((t) => t.accept(this)));
+	}
+
+	visitFloatType(type: webidl.model.FloatType): TextSpan[] {
+		return [];
+	}
+
+	visitIntegerType(type: webidl.model.IntegerType): TextSpan[] {
+		return [];
+	}
+}
+
+/**
+ * A symbol table over sets of definitions and the common definitions, with all references bound to the definitions they name.
+ * Primary definitions are preferred over partial ones of the same name.
+ */
+export class Resolver {
+	private symbols: Map<string, webidl.model.Definition>;
+	private references: Map<TextSpan, webidl.model.Definition>;
+
+	constructor(...sets: webidl.model.Definition[][]) {
+		let defs = flatten([common(), ...sets]);
+		this.symbols = new Map<string, webidl.model.Definition>();
+		this.references = new Map<TextSpan, webidl.model.Definition>();
+
+		for (let def of defs.filter(isNamed)) {
+			let previous = this.symbols.get(def.identifier.text);
+
+			if (!previous || (isPartial(previous) && !isPartial(def))) {
+				this.symbols.set(def.identifier.text, def);
+			}
+		}
+
+		let visitor = new References();
+
+		for (let span of flatten(defs.map((def) => def.accept(visitor)))) {
+			let def = this.symbols.get(span.text);
+
+			if (def) {
+				this.references.set(span, def);
+			}
+		}
+	}
+
+	/**
+	 * @param name
+	 * @return `null` if there is no definition of the name.
+	 */
+	lookup(name: string): webidl.model.Definition {
+		return this.symbols.get(name) || null;
+	}
+
+	/**
+	 * @param span A reference within the definitions, e.g. the span of a type or an inheritance.
+	 * @return `null` if the reference is undefined or not part of the definitions.
+	 */
+	getReference(span: TextSpan): webidl.model.Definition {
+		return this.references.get(span) || null;
+	}
+
+	/**
+	 * The definition a type refers to, typedefs are not expanded.
+	 * @param type
+	 * @return `null` for built-in and composite types and for undefined references.
+	 */
+	resolve(type: webidl.model.Type): webidl.model.Definition {
+		if (type instanceof webidl.model.NullableType) {
+			return this.resolve(type.type);
+		} else if (type instanceof webidl.model.SimpleType) {
+			return this.getReference(type.span) || this.lookup(type.span.text);
+		} else {
+			return null;
+		}
+	}
+
+	/**
+	 * @param def
+	 * @return `null` if the interface does not inherit from a defined interface.
+	 */
+	getBaseInterface(def: webidl.model.InterfaceDefinition): webidl.model.InterfaceDefinition {
+		let base = def.inheritance ? this.lookup(def.inheritance.text) : null;
+		return base instanceof webidl.model.InterfaceDefinition ? base : null;
+	}
+}
@@ -0,0 +1,515 @@
+/// <reference path="tokenizer.ts" />
+/// <reference path="webidl.ts" />
+/// <reference path="resolver.ts" />
+/// <reference path="types.ts" />
+"use strict";
+
+import { TextSpan, KEYWORDS } from "./tokenizer";
+import * as webidl from "./webidl";
+import { Resolver, isNamed, isPartial } from "./resolver";
+import { expand, flattenedMemberTypes, countNullableMemberTypes, distinguishable } from "./types";
+
+/**
+ *
+ */
+export interface SemanticError {
+	/**
+	 *
+	 */
+	message: string;
+	/**
+	 * The name or type the error is about.
+	 */
+	span: TextSpan;
+	/**
+	 * Identifies the kind of error, e.g. `undefined-type`.
+	 */
+	code: string;
+}
+
+/**
+ * An operation or constructor, with the overloads of which it must be distinguishable.
+ */
+interface Overload {
+	name: string;
+	span: TextSpan;
+	args: webidl.model.Argument[];
+}
+
+function flatten<T>(lists: T[][]): T[] {
+	return lists.reduce((list, item) => {
+		return list.concat(item);
+	}, []);
+}
+
+/**
+ * @param code
+ * @param span
+ * @param message
+ * @return
+ */
+export function error(code: string, span: TextSpan, message: string): SemanticError {
+	return { message, span, code };
+}
+
+function kind(mem: { identifier: TextSpan }): string {
+	if (mem instanceof webidl.model.OperationMember) {
+		return "operation";
+	} else if (mem instanceof webidl.model.StaticMember && mem.member instanceof webidl.model.OperationMember) {
+		return "static operation";
+	} else {
+		return "member";
+	}
+}
+
+/**
+ * Whether two members of the same name can not be on the same definition, only operations may share a name as overloads.
+ * @param first
+ * @param second
+ * @return
+ */
+export function conflicts(first: { identifier: TextSpan }, second: { identifier: TextSpan }): boolean {
+	return kind(first) !== kind(second) || kind(first) === "member";
+}
+
+/**
+ * Checks definitions against the definitions they refer to.
+ */
+export class Semantic implements webidl.ISyntaxVisitor<SemanticError[]> {
+	private resolver: Resolver;
+
+	/**
+	 * @param resolver Holds all definitions that may be referred to.
+	 */
+	constructor(resolver: Resolver) {
+		this.resolver = resolver;
+	}
+
+	/**
+	 * Reports definitions, other than partial ones, with the name of an earlier definition.
+	 * @param defs
+	 * @return
+	 */
+	duplicates(defs: webidl.model.Definition[]): SemanticError[] {
+		let names = new Set<string>();
+		let errors = new Array<SemanticError>();
+
+		for (let def of defs) {
+			if (!isNamed(def) || isPartial(def)) {
+				continue;
+			}
+
+			if (names.has(def.identifier.text)) {
+				errors.push(error("duplicate-definition", def.identifier, `duplicate definition '${def.identifier.text}'`));
+			}
+
+			names.add(def.identifier.text);
+		}
+
+		return errors;
+	}
+
+	private reference(span: TextSpan): webidl.model.Definition {
+		return this.resolver.getReference(span) || this.resolver.lookup(span.text);
+	}
+
+	private members(members: { identifier: TextSpan }[]): SemanticError[] {
+		let names = new Map<string, { identifier: TextSpan }>();
+		let errors = new Array<SemanticError>();
+
+		for (let mem of members) {
+			if (!mem.identifier) {
+				continue;
+			}
+
+			let previous = names.get(mem.identifier.text);
+
+			if (previous && conflicts(previous, mem)) {
+				errors.push(error("duplicate-member", mem.identifier, `duplicate member '${mem.identifier.text}'`));
+			} else if (!previous) {
+				names.set(mem.identifier.text, mem);
+			}
+		}
+
+		return errors;
+	}
+
+	/**
+	 * The source text of a node, without the trivia around it.
+	 * @param node
+	 * @return
+	 */
+	private span(node: webidl.model.Node): TextSpan {
+		let tokens = node.tokens || [];
+
+		if (tokens.length === 0) {
+			return { text: "", position: -1 };
+		}
+
+		let text = tokens.map((token, i) => {
+			let leading = i > 0 ? token.leading : [];
+			let trailing = i < tokens.length - 1 ? token.trailing : [];
+			return [...leading, token, ...trailing].map((t) => t.span.text).join("");
+		}).join("");
+
+		return { text, position: tokens[0].span.position };
+	}
+
+	private args(args: webidl.model.Argument[]): SemanticError[] {
+		let optional = false;
+		let errors = new Array<SemanticError>();
+
+		for (let arg of args) {
+			if (arg.optional) {
+				optional = true;
+			} else if (optional && !arg.variadic) {
+				errors.push(error("argument-order", arg.identifier, `required argument '${arg.identifier.text}' after an optional argument`));
+			}
+
+			errors.push(...arg.accept(this));
+		}
+
+		return errors;
+	}
+
+	/**
+	 * The number of arguments two overloads can not be told apart by.
+	 * @param first
+	 * @param second
+	 * @return `-1` if there is a distinguishing argument for any number of arguments both can be called with.
+	 */
+	private indistinguishable(first: webidl.model.Argument[], second: webidl.model.Argument[]): number {
+		let required = (args: webidl.model.Argument[]) => args.filter((arg) => !arg.optional && !arg.variadic).length;
+		let maximum = (args: webidl.model.Argument[]) => args.some((arg) => arg.variadic) ? Infinity : args.length;
+		// Variadic arguments repeat the type of the last one:
+		let type = (args: webidl.model.Argument[], i: number) => args[Math.min(i, args.length - 1)].type;
+
+		let from = Math.max(required(first), required(second));
+		let to = Math.min(maximum(first), maximum(second), Math.max(first.length, second.length));
+
+		for (let count = from; count <= to; count++) {
+			let i = 0;
+
+			while (i < count && !distinguishable(type(first, i), type(second, i), this.resolver)) {
+				i++;
+			}
+
+			if (i === count) {
+				return count;
+			}
+		}
+
+		return -1;
+	}
+
+	private signature(overload: Overload): string {
+		let args = overload.args.map((arg) => `${arg.optional ? "optional " : ""}${this.span(arg.type).text}${arg.variadic ? "..." : ""}`);
+		return `${overload.name}(${args.join(", ")})`;
+	}
+
+	/**
+	 * Reports operations and constructors that can not be told apart from an earlier overload.
+	 * @param name
+	 * @param attributes
+	 * @param members
+	 * @return
+	 */
+	private overloads(name: TextSpan, attributes: webidl.model.ExtendedAttribute[], members: webidl.model.InterfaceMember[]): SemanticError[] {
+		let groups = new Map<string, Overload[]>();
+		let errors = new Array<SemanticError>();
+
+		let add = (key: string, overload: Overload) => {
+			groups.set(key, (groups.get(key) || []).concat([overload]));
+		};
+
+		for (let attr of attributes || []) {
+			if (attr instanceof webidl.model.ExtendedAttributeNamedArgList && attr.identifier.text === "NamedConstructor") {
+				add(`new ${attr.ident.text}`, { name: attr.ident.text, span: attr.ident, args: attr.args });
+			} else if (attr.identifier.text === "Constructor") {
+				let args = attr instanceof webidl.model.ExtendedAttributeArgList ? attr.args : [];
+				add("new", { name: name.text, span: attr.identifier, args });
+			}
+		}
+
+		for (let mem of members) {
+			let operation = mem instanceof webidl.model.StaticMember ? mem.member : mem;
+
+			if (mem instanceof webidl.model.ConstructorMember) {
+				add("new", { name: name.text, span: this.span(mem), args: mem.args });
+			} else if (operation instanceof webidl.model.OperationMember && operation.identifier) {
+				let key = `${operation !== mem ? "static " : ""}${operation.identifier.text}`;
+				add(key, { name: operation.identifier.text, span: operation.identifier, args: operation.args });
+			}
+		}
+
+		for (let overloads of Array.from(groups.values())) {
+			overloads.forEach((overload, j) => {
+				for (let previous of overloads.slice(0, j)) {
+					let count = this.indistinguishable(previous.args, overload.args);
+
+					if (count >= 0) {
+						let message = `overload '${this.signature(overload)}' is not distinguishable from '${this.signature(previous)}' with ${count} argument${count === 1 ? "" : "s"}`;
+						errors.push(error("indistinguishable-overload", overload.span, message));
+						break;
+					}
+				}
+			});
+		}
+
+		return errors;
+	}
+
+	private attributes(attributes: webidl.model.ExtendedAttribute[]): SemanticError[] {
+		return flatten((attributes || []).map((attr) => attr.accept(this)));
+	}
+
+	private type(type: webidl.model.Type): SemanticError[] {
+		return type ? type.accept(this) : [];
+	}
+
+	visitExtendedAttribute(attr: webidl.model.ExtendedAttribute): SemanticError[] {
+		return [];
+	}
+
+	visitExtendedAttributeArgList(attr: webidl.model.ExtendedAttributeArgList): SemanticError[] {
+		return this.args(attr.args);
+	}
+
+	visitExtendedAttributeIdent(attr: webidl.model.ExtendedAttributeIdent): SemanticError[] {
+		return [];
+	}
+
+	visitExtendedAttributeIdentList(attr: webidl.model.ExtendedAttributeIdentList): SemanticError[] {
+		return [];
+	}
+
+	visitExtendedAttributeNamedArgList(attr: webidl.model.ExtendedAttributeNamedArgList): SemanticError[] {
+		return this.args(attr.args);
+	}
+
+	visitExtendedAttributeWildcard(attr: webidl.model.ExtendedAttributeWildcard): SemanticError[] {
+		return [];
+	}
+
+	visitExtendedAttributeLiteral(attr: webidl.model.ExtendedAttributeLiteral): SemanticError[] {
+		return [];
+	}
+
+	visitExtendedAttributeRaw(attr: webidl.model.ExtendedAttributeRaw): SemanticError[] {
+		return [];
+	}
+
+	visitErrorNode(node: webidl.model.ErrorNode): SemanticError[] {
+		return [];
+	}
+
+	visitErrorMember(mem: webidl.model.ErrorMember): SemanticError[] {
+		return [];
+	}
+
+	visitErrorDictionaryMember(mem: webidl.model.ErrorDictionaryMember): SemanticError[] {
+		return [];
+	}
+
+	visitCallbackDefinition(def: webidl.model.CallbackDefinition): SemanticError[] {
+		return [...this.type(def.rtype), ...this.args(def.args)];
+	}
+
+	visitInterfaceDefinition(def: webidl.model.InterfaceDefinition): SemanticError[] {
+		let errors = [...this.attributes(def.attributes), ...this.members(def.members), ...this.overloads(def.identifier, def.attributes, def.members)];
+
+		if (def.inheritance) {
+			let base = this.reference(def.inheritance);
+
+			if (!base) {
+				errors.push(error("undefined-type", def.inheritance, `undefined interface '${def.inheritance.text}'`));
+			} else if (!(base instanceof webidl.model.InterfaceDefinition)) {
+				errors.push(error("invalid-inheritance", def.inheritance, `interface '${def.identifier.text}' inherits from '${def.inheritance.text}', which is not an interface`));
+			}
+		}
+
+		return errors.concat(...def.members.map((mem) => mem.accept(this)));
+	}
+
+	visitDictionaryDefinition(def: webidl.model.DictionaryDefinition): SemanticError[] {
+		let errors = this.members(def.members);
+
+		if (def.inheritance) {
+			let base = this.reference(def.inheritance);
+
+			if (!base) {
+				errors.push(error("undefined-type", def.inheritance, `undefined dictionary '${def.inheritance.text}'`));
+			} else if (base instanceof webidl.model.InterfaceDefinition) {
+				errors.push(error("invalid-inheritance", def.inheritance, `dictionary '${def.identifier.text}' inherits from the interface '${def.inheritance.text}'`));
+			} else if (!(base instanceof webidl.model.DictionaryDefinition)) {
+				errors.push(error("invalid-inheritance", def.inheritance, `dictionary '${def.identifier.text}' inherits from '${def.inheritance.text}', which is not a dictionary`));
+			}
+		}
+
+		return errors.concat(...def.members.map((mem) => mem.accept(this)));
+	}
+
+	visitEnumDefinition(def: webidl.model.EnumDefinition): SemanticError[] {
+		return [];
+	}
+
+	visitTypedef(def: webidl.model.Typedef): SemanticError[] {
+		let errors = new Array<SemanticError>();
+		expand(def.type, this.resolver, errors);
+		return errors.concat(this.type(def.type));
+	}
+
+	visitImplementsStatement(def: webidl.model.ImplementsStatement): SemanticError[] {
+		return [def.identifier, def.name].filter((span) => !this.reference(span)).map((span) => {
+			return error("undefined-type", span, `undefined interface '${span.text}'`);
+		});
+	}
+
+	visitInterfaceMixinDefinition(def: webidl.model.InterfaceMixinDefinition): SemanticError[] {
+		return [...this.members(def.members), ...this.overloads(def.identifier, [], def.members)].concat(...def.members.map((mem) => mem.accept(this)));
+	}
+
+	visitIncludesStatement(def: webidl.model.IncludesStatement): SemanticError[] {
+		return [def.identifier, def.name].filter((span) => !this.reference(span)).map((span) => {
+			return error("undefined-type", span, `undefined ${span === def.name ? "mixin" : "interface"} '${span.text}'`);
+		});
+	}
+
+	visitNamespaceDefinition(def: webidl.model.NamespaceDefinition): SemanticError[] {
+		return [...this.members(def.members), ...this.overloads(def.identifier, [], def.members)].concat(...def.members.map((mem) => mem.accept(this)));
+	}
+
+	visitConstMember(mem: webidl.model.ConstMember): SemanticError[] {
+		return this.type(mem.type);
+	}
+
+	visitAttributeMember(mem: webidl.model.AttributeMember): SemanticError[] {
+		return this.type(mem.type);
+	}
+
+	visitOperationMember(mem: webidl.model.OperationMember): SemanticError[] {
+		return [...this.type(mem.rtype), ...this.args(mem.args)];
+	}
+
+	visitConstructorMember(mem: webidl.model.ConstructorMember): SemanticError[] {
+		return this.args(mem.args);
+	}
+
+	visitArgument(arg: webidl.model.Argument): SemanticError[] {
+		return this.type(arg.type);
+	}
+
+	visitStaticMember(mem: webidl.model.StaticMember): SemanticError[] {
+		return mem.member.accept(this);
+	}
+
+	visitIterableMember(mem: webidl.model.IterableMember): SemanticError[] {
+		return [...this.type(mem.key), ...this.type(mem.value), ...this.args(mem.args)];
+	}
+
+	visitMaplikeMember(mem: webidl.model.MaplikeMember): SemanticError[] {
+		return [...this.type(mem.key), ...this.type(mem.value)];
+	}
+
+	visitSetlikeMember(mem: webidl.model.SetlikeMember): SemanticError[] {
+		return this.type(mem.value);
+	}
+
+	visitSerializerMember(mem: webidl.model.SerializerMember): SemanticError[] {
+		return mem.operation ? mem.operation.accept(this) : [];
+	}
+
+	visitStringifierMember(mem: webidl.model.StringifierMember): SemanticError[] {
+		return [];
+	}
+
+	visitDictionaryMember(mem: webidl.model.DictionaryMember): SemanticError[] {
+		let errors = this.type(mem.type);
+
+		if (mem.required && mem.def) {
+			errors.push(error("required-default", mem.identifier, `required member '${mem.identifier.text}' has a default value`));
+		}
+
+		return errors;
+	}
+
+	visitSimpleType(type: webidl.model.SimpleType): SemanticError[] {
+		// Keywords are built-in types, anything else is an identifier:
+		if (KEYWORDS.indexOf(type.span.text) >= 0 || this.resolver.resolve(type)) {
+			return [];
+		}
+
+		return [error("undefined-type", type.span, `undefined type '${type.span.text}'`)];
+	}
+
+	visitNullableType(type: webidl.model.NullableType): SemanticError[] {
+		// Cycles are reported for the typedefs:
+		let inner = expand(type.type, this.resolver);
+		let errors = type.type.accept(this);
+
+		if (inner instanceof webidl.model.NullableType) {
+			errors.push(error("nullable-type", this.span(type), "nullable type of a nullable type"));
+		} else if (inner instanceof webidl.model.UnionType && countNullableMemberTypes(inner) > 0) {
+			errors.push(error("nullable-type", this.span(type), "nullable union type with a nullable member type"));
+		}
+
+		return errors;
+	}
+
+	visitSequenceType(type: webidl.model.SequenceType): SemanticError[] {
+		return type.type.accept(this);
+	}
+
+	visitFrozenArrayType(type: webidl.model.FrozenArrayType): SemanticError[] {
+		return type.type.accept(this);
+	}
+
+	visitPromiseType(type: webidl.model.PromiseType): SemanticError[] {
+		return this.type(type.type);
+	}
+
+	visitRecordType(type: webidl.model.RecordType): SemanticError[] {
+		return [...type.key.accept(this), ...type.value.accept(this)];
+	}
+
+	visitUnionType(type: webidl.model.UnionType): SemanticError[] {
+		let errors = flatten(type.types.map((t) => t.accept(this)));
+		let union = <webidl.model.UnionType>expand(type, this.resolver);
+
+		if (countNullableMemberTypes(union) > 1) {
+			errors.push(error("nullable-type", this.span(type), "union type with more than one nullable member type"));
+		}
+
+		let members = flattenedMemberTypes(type);
+
+		members.forEach((member, j) => {
+			for (let previous of members.slice(0, j)) {
+				if (!distinguishable(previous, member, this.resolver)) {
+					let message = `member types '${this.span(previous).text}' and '${this.span(member).text}' of the union are not distinguishable`;
+					errors.push(error("indistinguishable-union", this.span(member), message));
+					break;
+				}
+			}
+		});
+
+		return errors;
+	}
+
+	visitFloatType(type: webidl.model.FloatType): SemanticError[] {
+		return [];
+	}
+
+	visitIntegerType(type: webidl.model.IntegerType): SemanticError[] {
+		return [];
+	}
+}
+
+/**
+ * @param defs
+ * @param known Definitions from elsewhere that may be referred to, these are not validated. The common definitions are always known.
+ * @return
+ */
+export function validate(defs: webidl.model.Definition[], known: webidl.model.Definition[] = []): SemanticError[] {
+	let semantic = new Semantic(new Resolver(defs, known));
+	return semantic.duplicates(defs).concat(...defs.map((def) => def.accept(semantic)));
+}
@@ -15,6 +15,7 @@ export enum TokenKind {
 	keyword,
 	
 	eof,
+	error,
 }
 
 /**
@@ -31,6 +32,38 @@ export interface TextSpan {
 	position: number;
 }
 
+/**
+ * 
+ */
+export interface TextPosition {
+	/**
+	 * 
+	 */
+	offset: number;
+	/**
+	 * 1-based.
+	 */
+	line: number;
+	/**
+	 * 1-based.
+	 */
+	column: number;
+}
+
+/**
+ * 
+ */
+export interface TextRange {
+	/**
+	 * 
+	 */
+	start: TextPosition;
+	/**
+	 * Exclusive.
+	 */
+	end: TextPosition;
+}
+
 /**
  * 
  */
@@ -43,6 +76,102 @@ export interface Token {
 	 * 
 	 */
 	span: TextSpan;
+	/**
+	 * 
+	 */
+	range: TextRange;
+	/**
+	 * Whitespace and comments before the token, see `attachTrivia`.
+	 */
+	leading?: Token[];
+	/**
+	 * Whitespace and comments after the token on the same line, see `attachTrivia`.
+	 */
+	trailing?: Token[];
+}
+
+/**
+ * 
+ */
+export interface TokenizerError {
+	/**
+	 * 
+	 */
+	message: string;
+	/**
+	 * 
+	 */
+	span: TextSpan;
+	/**
+	 * 
+	 */
+	range: TextRange;
+}
+
+/**
+ * Maps character offsets of a text to lines and columns.
+ */
+export class SourceFile {
+	text: string;
+	private lines: number[];
+
+	constructor(text: string) {
+		this.text = text;
+		this.lines = [0];
+
+		for (let i = 0; i < text.length; i++) {
+			let c = text[i];
+
+			if (c === "\r" && text[i + 1] === "\n") {
+				i += 1;
+			}
+
+			if (is_line_break(c)) {
+				this.lines.push(i + 1);
+			}
+		}
+	}
+
+	/**
+	 * @param offset
+	 * @return
+	 */
+	getPosition(offset: number): TextPosition {
+		let low = 0;
+		let high = this.lines.length - 1;
+
+		while (low < high) {
+			let mid = (low + high + 1) >> 1;
+
+			if (this.lines[mid] <= offset) {
+				low = mid;
+			} else {
+				high = mid - 1;
+			}
+		}
+
+		return { offset, line: low + 1, column: offset - this.lines[low] + 1 };
+	}
+
+	/**
+	 * @param start
+	 * @param end
+	 * @return
+	 */
+	getRange(start: number, end: number): TextRange {
+		return { start: this.getPosition(start), end: this.getPosition(end) };
+	}
+
+	/**
+	 * @param line 1-based.
+	 * @return The text of the line without its line break.
+	 */
+	getLine(line: number): string {
+		let start = this.lines[line - 1];
+		let end = line < this.lines.length ? this.lines[line] : this.text.length;
+
+		return this.text.slice(start, end).replace(/(\r\n|[\r\n\u2028\u2029])$/, "");
+	}
 }
 
 /**
@@ -51,86 +180,293 @@ export interface Token {
 export const KEYWORDS = [
 	"-Infinity", "...", "ArrayBuffer", "ByteString", "DOMException", "DOMString", "DataView", "Error", "Float32Array",
 	"Float64Array", "FrozenArray", "Infinity", "Int16Array", "Int32Array", "Int8Array", "NaN", "Promise", "RegExp",
-	"USVString", "Uint16Array", "Uint32Array", "Uint8Array", "Uint8ClampedArray", "any", "attribute", "boolean", "byte",
-	"callback", "const", "deleter", "dictionary", "double", "enum", "false", "float", "getter", "implements", "inherit",
-	"interface", "iterable", "legacycaller", "long", "maplike", "null", "object", "octet", "optional", "or", "partial",
-	"readonly", "required", "sequence", "serializer", "setlike", "setter", "short", "static", "stringifier", "true",
-	"typedef", "unrestricted", "unsigned", "void"
+	"USVString", "Uint16Array", "Uint32Array", "Uint8Array", "Uint8ClampedArray", "any", "async", "attribute", "bigint", "boolean",
+	"byte", "callback", "const", "constructor", "deleter", "dictionary", "double", "enum", "false", "float", "getter",
+	"implements", "includes", "inherit", "interface", "iterable", "legacycaller", "long", "maplike", "mixin", "namespace", "null", "object", "octet",
+	"optional",
+	"or", "partial",
+	"readonly", "record", "required", "sequence", "serializer", "setlike", "setter", "short", "static", "stringifier", "true",
+	"typedef", "undefined", "unrestricted", "unsigned", "void"
 ];
 
+const KEYWORD_TABLE = new Set(KEYWORDS);
+
+function is_digit(c: string): boolean {
+	return c >= "0" && c <= "9";
+}
+
+function is_octal_digit(c: string): boolean {
+	return c >= "0" && c <= "7";
+}
+
+function is_hex_digit(c: string): boolean {
+	return is_digit(c) || (c >= "A" && c <= "F") || (c >= "a" && c <= "f");
+}
+
+function is_letter(c: string): boolean {
+	return (c >= "A" && c <= "Z") || (c >= "a" && c <= "z");
+}
+
+function is_identifier_part(c: string): boolean {
+	return is_letter(c) || is_digit(c) || c === "_" || c === "-";
+}
+
+/**
+ * Besides the whitespace of WebIDL, Unicode whitespace such as no-break spaces is accepted like in JavaScript.
+ */
+function is_whitespace(c: string): boolean {
+	return c === "\t" || c === "\n" || c === "\r" || c === " " || (c > "~" && /\s/.test(c));
+}
+
+/**
+ * Also used by `SourceFile` for lines and columns, so that they agree with the comments ending at line breaks.
+ */
+function is_line_break(c: string): boolean {
+	return c === "\n" || c === "\r" || c === "\u2028" || c === "\u2029";
+}
+
 /**
+ * WebIDL is written in printable ASCII, anything else outside of strings and comments is an error.
+ */
+function is_invalid(c: string): boolean {
+	return !is_whitespace(c) && (c < " " || c > "~");
+}
+
+/**
+ * Scans an integer or float starting at `start`, which must be the beginning of a valid number.
  * @param input
+ * @param start
+ * @return The kind of the number and the position after it.
+ */
+function scan_number(input: string, start: number): [TokenKind, number] {
+	let position = start;
+
+	if (input[position] === "-") {
+		position += 1;
+	}
+
+	if (input[position] === "0" && (input[position + 1] === "X" || input[position + 1] === "x") && is_hex_digit(input[position + 2])) {
+		position += 2;
+
+		while (is_hex_digit(input[position])) {
+			position += 1;
+		}
+
+		return [TokenKind.integer, position];
+	}
+
+	let digits = position;
+	let float = false;
+
+	while (is_digit(input[position])) {
+		position += 1;
+	}
+
+	if (input[position] === "." && (position > digits || is_digit(input[position + 1]))) {
+		position += 1;
+		float = true;
+
+		while (is_digit(input[position])) {
+			position += 1;
+		}
+	}
+
+	if (input[position] === "E" || input[position] === "e") {
+		let exponent = position + 1;
+
+		if (input[exponent] === "+" || input[exponent] === "-") {
+			exponent += 1;
+		}
+
+		if (is_digit(input[exponent])) {
+			position = exponent;
+			float = true;
+
+			while (is_digit(input[position])) {
+				position += 1;
+			}
+		}
+	}
+
+	if (float) {
+		return [TokenKind.float, position];
+	}
+
+	// Integers with a leading zero are octal:
+	if (input[digits] === "0") {
+		position = digits + 1;
+
+		while (is_octal_digit(input[position])) {
+			position += 1;
+		}
+	}
+
+	return [TokenKind.integer, position];
+}
+
+/**
+ * Malformed input is returned as tokens of kind `TokenKind.error`, scanning continues after them.
+ * @param source
  * @param position
+ * @param errors Receives an entry for every error token.
  * @return
  */
-export default function* tokenize(input: string, position: number = 0): IterableIterator<Token> {
-	const integer_pattern = /-?([1-9][0-9]*|0[Xx][0-9A-Fa-f]+|0[0-7]*)/y;
-	const float_pattern = /-?(([0-9]+\.[0-9]*|[0-9]*\.[0-9]+)([Ee][+-]?[0-9]+)?|[0-9]+[Ee][+-]?[0-9]+)/y;
-	const identifier_pattern = /_?[A-Za-z][0-9A-Z_a-z-]*/y;
-	const string_pattern = /"[^"]*"/y;
-	const whitespace_pattern = /[\t\n\r ]+/y;
-	const comment_pattern = /\/\/.*|\/\*(.|\n)*?\*\//y;
-	const other_pattern = /[^\t\n\r 0-9A-Za-z]/y;
-	
-	function escape(l: string): string {
-		return l.replace(/[\-\[\]\/\{\}\(\)\*\+\?\.\\\^\$\|]/g, "\\$&");
-	}
-	
-	const keyword_pattern = new RegExp(KEYWORDS.map(k => {
-		return "(" + escape(k) + ")";
-	}).join("|"), "y");
-	
-	while(position < input.length) {
-		// Order is relevant:
-		let matches = [
-			[TokenKind.keyword, keyword_pattern.exec(input)],
-			[TokenKind.integer, integer_pattern.exec(input)],
-			[TokenKind.float, float_pattern.exec(input)],
-			[TokenKind.identifier, identifier_pattern.exec(input)],
-			[TokenKind.string, string_pattern.exec(input)],
-			[TokenKind.whitespace, whitespace_pattern.exec(input)],
-			[TokenKind.comment, comment_pattern.exec(input)],
-			[TokenKind.other, other_pattern.exec(input)],
-		].filter(p => p[1] != null);
-
-		let longest_match = matches.reduce((p, c) => {
-			if(!p) {
-				return c;
+export default function* tokenize(source: string | SourceFile, position: number = 0, errors: TokenizerError[] = []): IterableIterator<Token> {
+	const file = typeof source === "string" ? new SourceFile(source) : source;
+	const input = file.text;
+
+	while (position < input.length) {
+		let c = input[position];
+		let next = input[position + 1];
+		let kind = TokenKind.other;
+		let end = position + 1;
+		let message: string = null;
+
+		if (is_whitespace(c)) {
+			kind = TokenKind.whitespace;
+
+			while (is_whitespace(input[end])) {
+				end += 1;
+			}
+		} else if (c === "/" && next === "/") {
+			kind = TokenKind.comment;
+
+			while (end < input.length && !is_line_break(input[end])) {
+				end += 1;
 			}
-			
-			let prev_match = <RegExpExecArray>p[1];
-			let current_match = <RegExpExecArray>c[1];
-			
-			if(current_match[0].length > prev_match[0].length) {
-				return c;
+		} else if (c === "/" && next === "*") {
+			let close = input.indexOf("*/", position + 2);
+
+			if (close >= 0) {
+				kind = TokenKind.comment;
+				end = close + 2;
 			} else {
-				return p;
+				kind = TokenKind.error;
+				end = input.length;
+				message = "Unterminated comment.";
 			}
-		}, null);
-		
-		if(!longest_match) {
-			throw "Invalid input";
+		} else if (c === "\"") {
+			let close = input.indexOf("\"", position + 1);
+
+			if (close >= 0) {
+				kind = TokenKind.string;
+				end = close + 1;
+			} else {
+				kind = TokenKind.error;
+				message = "Unterminated string.";
+
+				while (end < input.length && !is_line_break(input[end])) {
+					end += 1;
+				}
+			}
+		} else if (is_digit(c) || ((c === "-" || c === ".") && is_digit(next)) || (c === "-" && next === "." && is_digit(input[position + 2]))) {
+			[kind, end] = scan_number(input, position);
+		} else if (c === "-" && input.startsWith("Infinity", position + 1)) {
+			kind = TokenKind.keyword;
+			end = position + "-Infinity".length;
+		} else if (c === "." && input.startsWith("...", position)) {
+			kind = TokenKind.keyword;
+			end = position + "...".length;
+		} else if (is_letter(c) || (c === "_" && is_letter(next))) {
+			end = c === "_" ? position + 2 : position + 1;
+
+			while (is_identifier_part(input[end])) {
+				end += 1;
+			}
+
+			kind = KEYWORD_TABLE.has(input.slice(position, end)) ? TokenKind.keyword : TokenKind.identifier;
+		} else if (is_invalid(c)) {
+			kind = TokenKind.error;
+			message = "Invalid character.";
+
+			while (is_invalid(input[end])) {
+				end += 1;
+			}
+		}
+
+		let text = input.slice(position, end);
+		let span = { text, position };
+		let range = file.getRange(position, end);
+
+		if (message) {
+			errors.push({ message, span, range });
+		}
+
+		position = end;
+		yield { kind, span, range };
+	}
+
+	yield { kind: TokenKind.eof, span: { text: "<eof>", position }, range: file.getRange(position, position) };
+}
+
+function is_trivia(token: Token): boolean {
+	return token.kind === TokenKind.whitespace || token.kind === TokenKind.comment;
+}
+
+function has_line_break(text: string): boolean {
+	for (let c of text) {
+		if (is_line_break(c)) {
+			return true;
 		}
-		
-		let kind = <TokenKind>longest_match[0];
-		let match = <RegExpExecArray>longest_match[1];
-		
-		let span = { text: match[0], position };
-		let token = { kind, span };
-		
-		position += match[0].length;
-		integer_pattern.lastIndex = position;
-		float_pattern.lastIndex = position;
-		identifier_pattern.lastIndex = position;
-		string_pattern.lastIndex = position;
-		whitespace_pattern.lastIndex = position;
-		comment_pattern.lastIndex = position;
-		float_pattern.lastIndex = position;
-		other_pattern.lastIndex = position;
-		keyword_pattern.lastIndex = position;
-		
-		yield token;
 	}
-	
-	yield { kind: TokenKind.eof, span: { text: "<eof>", position }};
-}
\ No newline at end of file
+
+	return false;
+}
+
+/**
+ * Removes whitespace and comments from the token stream and attaches them to the remaining tokens.
+ * A token keeps the trivia following it up to the end of its line, everything else goes to the next token.
+ * @param tokens
+ * @return
+ */
+export function* attachTrivia(tokens: Iterable<Token>): IterableIterator<Token> {
+	let previous: Token = null;
+	let leading = new Array<Token>();
+
+	for (let token of tokens) {
+		if (!is_trivia(token)) {
+			if (previous) {
+				yield previous;
+			}
+
+			token.leading = leading;
+			token.trailing = [];
+			previous = token;
+			leading = [];
+		} else if (previous && leading.length === 0 && !has_line_break(token.span.text)) {
+			previous.trailing.push(token);
+		} else {
+			leading.push(token);
+		}
+	}
+
+	if (previous) {
+		previous.trailing.push(...leading);
+		yield previous;
+	}
+}
+
+/**
+ * Prints tokens back to text, including their trivia.
+ * @param tokens
+ * @return
+ */
+export function print(tokens: Token[]): string {
+	let text = "";
+
+	for (let token of tokens) {
+		for (let trivia of token.leading || []) {
+			text += trivia.span.text;
+		}
+
+		if (token.kind !== TokenKind.eof) {
+			text += token.span.text;
+		}
+
+		for (let trivia of token.trailing || []) {
+			text += trivia.span.text;
+		}
+	}
+
+	return text;
+}
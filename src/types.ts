@@ -0,0 +1,274 @@
+/// <reference path="tokenizer.ts" />
+/// <reference path="webidl.ts" />
+/// <reference path="resolver.ts" />
+/// <reference path="semantic.ts" />
+"use strict";
+
+import * as webidl from "./webidl";
+import { Resolver } from "./resolver";
+import { SemanticError } from "./semantic";
+
+/**
+ * Replaces references to typedefs by the types they stand for.
+ */
+class Expansion implements webidl.ISyntaxVisitor<webidl.model.Type> {
+	private resolver: Resolver;
+	private errors: SemanticError[];
+	private stack: webidl.model.Typedef[];
+
+	constructor(resolver: Resolver, errors: SemanticError[]) {
+		this.resolver = resolver;
+		this.errors = errors;
+		this.stack = [];
+	}
+
+	visitSimpleType(type: webidl.model.SimpleType): webidl.model.Type {
+		let def = this.resolver.resolve(type);
+
+		if (!(def instanceof webidl.model.Typedef)) {
+			return type;
+		}
+
+		let typedef = <webidl.model.Typedef>def;
+
+		// A typedef within its own expansion is kept as it is:
+		if (this.stack.indexOf(typedef) >= 0) {
+			this.errors.push({ message: `typedef '${type.span.text}' refers to itself`, span: type.span, code: "typedef-cycle" });
+			return type;
+		}
+
+		this.stack.push(typedef);
+		let expanded = typedef.type.accept(this);
+		this.stack.pop();
+
+		return expanded;
+	}
+
+	visitNullableType(type: webidl.model.NullableType): webidl.model.Type {
+		return new webidl.model.NullableType(type.type.accept(this));
+	}
+
+	visitSequenceType(type: webidl.model.SequenceType): webidl.model.Type {
+		return new webidl.model.SequenceType(type.type.accept(this));
+	}
+
+	visitFrozenArrayType(type: webidl.model.FrozenArrayType): webidl.model.Type {
+		return new webidl.model.FrozenArrayType(type.type.accept(this));
+	}
+
+	visitPromiseType(type: webidl.model.PromiseType): webidl.model.Type {
+		return new webidl.model.PromiseType(type.type ? type.type.accept(this) : null);
+	}
+
+	visitRecordType(type: webidl.model.RecordType): webidl.model.Type {
+		return new webidl.model.RecordType(type.key.accept(this), type.value.accept(this));
+	}
+
+	visitUnionType(type: webidl.model.UnionType): webidl.model.Type {
+		return new webidl.model.UnionType(type.types.map((type) => type.accept(this)));
+	}
+
+	visitFloatType(type: webidl.model.FloatType): webidl.model.Type {
+		return type;
+	}
+
+	visitIntegerType(type: webidl.model.IntegerType): webidl.model.Type {
+		return type;
+	}
+}
+
+/**
+ * Expands typedefs recursively, the given type is not changed.
+ * @param type
+ * @param resolver
+ * @param errors Receives an error for each typedef referring to itself, which is left unexpanded.
+ * @return
+ */
+export function expand(type: webidl.model.Type, resolver: Resolver, errors: SemanticError[] = []): webidl.model.Type {
+	return type.accept(new Expansion(resolver, errors));
+}
+
+/**
+ * The flattened member types of a union: nested unions are replaced by their members and nullable types by their inner type.
+ * Typedefs are not expanded, see `expand`.
+ * @param type
+ * @return
+ */
+export function flattenedMemberTypes(type: webidl.model.UnionType): webidl.model.Type[] {
+	return type.types.reduce((types, member) => {
+		let inner = member instanceof webidl.model.NullableType ? member.type : member;
+
+		if (inner instanceof webidl.model.UnionType) {
+			return types.concat(flattenedMemberTypes(inner));
+		} else {
+			return types.concat([inner]);
+		}
+	}, new Array<webidl.model.Type>());
+}
+
+/**
+ * The number of nullable member types of a union, including those of nested unions.
+ * Typedefs are not expanded, see `expand`.
+ * @param type
+ * @return
+ */
+export function countNullableMemberTypes(type: webidl.model.UnionType): number {
+	return type.types.reduce((count, member) => {
+		let inner = member instanceof webidl.model.NullableType ? member.type : member;
+		let nested = inner instanceof webidl.model.UnionType ? countNullableMemberTypes(inner) : 0;
+
+		return count + (inner !== member ? 1 : 0) + nested;
+	}, 0);
+}
+
+/**
+ * A union of the flattened member types, nullable if any of the member types is.
+ * @param type
+ * @return
+ */
+export function flattenUnion(type: webidl.model.UnionType): webidl.model.Type {
+	let union = new webidl.model.UnionType(flattenedMemberTypes(type));
+	return countNullableMemberTypes(type) > 0 ? new webidl.model.NullableType(union) : union;
+}
+
+const NUMERIC = ["byte", "octet"];
+const STRINGS = ["ByteString", "DOMString", "USVString"];
+const INTERFACES = [
+	"ArrayBuffer", "DataView", "Int8Array", "Int16Array", "Int32Array", "Uint8Array", "Uint16Array", "Uint32Array",
+	"Uint8ClampedArray", "Float32Array", "Float64Array", "Error", "DOMException", "RegExp"
+];
+
+/**
+ * Pairs of categories that are not distinguishable, besides any category and itself.
+ */
+const INDISTINGUISHABLE = [
+	["undefined", "dictionary"],
+	["object", "interface"],
+	["object", "callback"],
+	["object", "dictionary"],
+	["object", "sequence"],
+	["callback", "dictionary"]
+];
+
+/**
+ * The category of a type in the distinguishability table, `null` for types distinguishable from nothing such as `any` and promise types.
+ * Typedefs must be expanded and nullable and union types handled before.
+ * @param type
+ * @param resolver
+ * @return
+ */
+function category(type: webidl.model.Type, resolver: Resolver): string {
+	if (type instanceof webidl.model.IntegerType || type instanceof webidl.model.FloatType) {
+		return "numeric";
+	} else if (type instanceof webidl.model.SequenceType || type instanceof webidl.model.FrozenArrayType) {
+		return "sequence";
+	} else if (type instanceof webidl.model.RecordType) {
+		return "dictionary";
+	} else if (!(type instanceof webidl.model.SimpleType)) {
+		return null;
+	}
+
+	let text = (<webidl.model.SimpleType>type).span.text;
+
+	if (text === "undefined" || text === "boolean" || text === "bigint" || text === "object") {
+		return text;
+	} else if (NUMERIC.indexOf(text) >= 0) {
+		return "numeric";
+	} else if (STRINGS.indexOf(text) >= 0) {
+		return "string";
+	} else if (INTERFACES.indexOf(text) >= 0) {
+		return "interface";
+	} else if (text === "any") {
+		return null;
+	}
+
+	let def = resolver.resolve(type);
+
+	// Callback interfaces are dictionary-like, as any object with the operation converts to them:
+	if (def instanceof webidl.model.InterfaceDefinition) {
+		return def.callback ? "dictionary" : "interface";
+	} else if (def instanceof webidl.model.DictionaryDefinition) {
+		return "dictionary";
+	} else if (def instanceof webidl.model.CallbackDefinition) {
+		return "callback";
+	} else if (def instanceof webidl.model.EnumDefinition) {
+		return "string";
+	} else {
+		// Undefined names are reported by `validate`:
+		return "unknown";
+	}
+}
+
+function inherits(def: webidl.model.InterfaceDefinition, base: webidl.model.InterfaceDefinition, resolver: Resolver): boolean {
+	let seen = new Array<webidl.model.InterfaceDefinition>();
+
+	while (def && seen.indexOf(def) < 0) {
+		if (def === base) {
+			return true;
+		}
+
+		seen.push(def);
+		def = resolver.getBaseInterface(def);
+	}
+
+	return false;
+}
+
+function includesNullable(type: webidl.model.Type): boolean {
+	return type instanceof webidl.model.NullableType || (type instanceof webidl.model.UnionType && countNullableMemberTypes(type) > 0);
+}
+
+function includesDictionary(type: webidl.model.Type, resolver: Resolver): boolean {
+	let inner = type instanceof webidl.model.NullableType ? type.type : type;
+	let types = inner instanceof webidl.model.UnionType ? flattenedMemberTypes(inner) : [inner];
+	return types.some((type) => resolver.resolve(type) instanceof webidl.model.DictionaryDefinition);
+}
+
+/**
+ * Whether values of two types can always be told apart, as required for overloads and the members of unions.
+ * Typedefs are expanded.
+ * @param first
+ * @param second
+ * @param resolver
+ * @return
+ */
+export function distinguishable(first: webidl.model.Type, second: webidl.model.Type, resolver: Resolver): boolean {
+	let a = expand(first, resolver);
+	let b = expand(second, resolver);
+
+	// `null` converts to both a nullable type and a dictionary:
+	if ((includesNullable(a) && (includesNullable(b) || includesDictionary(b, resolver))) || (includesNullable(b) && includesDictionary(a, resolver))) {
+		return false;
+	}
+
+	let inner = (type: webidl.model.Type) => type instanceof webidl.model.NullableType ? type.type : type;
+	let members = (type: webidl.model.Type) => type instanceof webidl.model.UnionType ? flattenedMemberTypes(type) : [type];
+	a = inner(a);
+	b = inner(b);
+
+	if (a instanceof webidl.model.UnionType || b instanceof webidl.model.UnionType) {
+		return members(a).every((a) => members(b).every((b) => distinguishable(a, b, resolver)));
+	}
+
+	let categories = [category(a, resolver), category(b, resolver)];
+
+	if (categories[0] === null || categories[1] === null) {
+		return false;
+	} else if (categories[0] === "unknown" || categories[1] === "unknown") {
+		return true;
+	} else if (categories[0] === "interface" && categories[1] === "interface") {
+		let defs = [resolver.resolve(a), resolver.resolve(b)];
+
+		// Built-in interfaces are not defined, and inherit from nothing:
+		if (defs[0] instanceof webidl.model.InterfaceDefinition && defs[1] instanceof webidl.model.InterfaceDefinition) {
+			let [x, y] = <webidl.model.InterfaceDefinition[]>defs;
+			return !inherits(x, y, resolver) && !inherits(y, x, resolver);
+		}
+
+		return (<webidl.model.SimpleType>a).span.text !== (<webidl.model.SimpleType>b).span.text;
+	} else if (categories[0] === categories[1]) {
+		return false;
+	}
+
+	return !INDISTINGUISHABLE.some(([x, y]) => (categories[0] === x && categories[1] === y) || (categories[0] === y && categories[1] === x));
+}
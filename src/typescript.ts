@@ -1,9 +1,13 @@
 /// <reference path="tokenizer.ts" />
 /// <reference path="webidl.ts" />
+/// <reference path="resolver.ts" />
+/// <reference path="types.ts" />
 "use strict";
 
 import { TextSpan } from "./tokenizer";
 import * as webidl from "./webidl";
+import { Resolver } from "./resolver";
+import { flattenedMemberTypes } from "./types";
 
 export class Writer {
 	private text: string;
@@ -153,6 +157,49 @@ export class Emitter implements ISyntaxVisitor<void> {
 		this.writer.appendln(";");
 	}
 
+	visitNamespace(stmt: model.Namespace): void {
+		this.writer.appendln("declare", "namespace", stmt.identifier.text, "{");
+		this.writer.indent();
+
+		for (let member of stmt.statements) {
+			member.accept(this);
+		}
+
+		this.writer.unindent();
+		this.writer.appendln("}");
+	}
+
+	visitFunctionDeclaration(stmt: model.FunctionDeclaration): void {
+		this.writer.append("function", stmt.identifier.text);
+		this.writer.append("(");
+
+		for (let [i, arg] of stmt.args.entries()) {
+			arg.accept(this);
+
+			if (i !== stmt.args.length - 1) {
+				this.writer.append(",", "");
+			}
+		}
+
+		this.writer.append(")");
+		this.writer.append(":", "");
+
+		if (stmt.rtype) {
+			stmt.rtype.accept(this);
+		} else {
+			this.writer.append("void");
+		}
+
+		this.writer.appendln(";");
+	}
+
+	visitVariableDeclaration(stmt: model.VariableDeclaration): void {
+		this.writer.append(stmt.constant ? "const" : "var", stmt.identifier.text);
+		this.writer.append(":", "");
+		stmt.type.accept(this);
+		this.writer.appendln(";");
+	}
+
 	visitEnum(stmt: model.Enum): void {
 		let options = stmt.options.map((span) => span.text).join(" | ");
 		this.writer.append("declare", "type", stmt.identifier.text, "=", options);
@@ -188,6 +235,14 @@ export class Emitter implements ISyntaxVisitor<void> {
 	}
 
 	visitArgument(arg: model.Argument): void {
+		if (arg.def) {
+			this.writer.append("/**", "@default", arg.def.span.text, "*/", "");
+		}
+
+		if (arg.rest) {
+			this.writer.append("...");
+		}
+
 		this.writer.append(arg.identifier.text);
 
 		if (arg.optional) {
@@ -198,6 +253,14 @@ export class Emitter implements ISyntaxVisitor<void> {
 	}
 
 	visitAttributeMember(mem: model.AttributeMember): void {
+		if (mem.def) {
+			this.writer.appendln("/**", "@default", mem.def.span.text, "*/");
+		}
+
+		if (mem.readonly) {
+			this.writer.append("readonly", "");
+		}
+
 		this.writer.append(mem.identifier.text);
 
 		if (mem.optional) {
@@ -300,8 +363,16 @@ export class TypeMapping implements webidl.ISyntaxVisitor<model.SimpleType> {
 		return new model.SimpleType(false, span);
 	}
 
+	visitRecordType(type: webidl.model.RecordType): model.SimpleType {
+		let value = type.value.accept(this);
+		let span = { text: "Record<string, " + value.span.text + ">", position: -1 };
+		return new model.SimpleType(false, span);
+	}
+
 	visitUnionType(type: webidl.model.UnionType): model.SimpleType {
-		let text = "(" + type.types.map((type) => type.accept(this)).map((type) => type.span.text).join(" | ") + ")";
+		// Nested unions are flattened and member types mapping to the same type are written once:
+		let texts = flattenedMemberTypes(type).map((type) => type.accept(this).span.text);
+		let text = "(" + texts.filter((text, i) => texts.indexOf(text) === i).join(" | ") + ")";
 		let span = { text, position: - 1 };
 		return new model.SimpleType(false, span);
 	}
@@ -317,6 +388,53 @@ export class TypeMapping implements webidl.ISyntaxVisitor<model.SimpleType> {
 	}
 }
 
+/**
+ * Maps default values to JavaScript literals.
+ */
+export class ValueMapping implements webidl.ISyntaxVisitor<model.Value> {
+
+	visitStringValue(value: webidl.model.StringValue): model.Value {
+		return new model.Value({ text: value.span.text, position: - 1 });
+	}
+
+	visitNumberValue(value: webidl.model.NumberValue): model.Value {
+		// Octal integers are not valid in strict mode:
+		return new model.Value({ text: String(value.value), position: - 1 });
+	}
+
+	visitBooleanValue(value: webidl.model.BooleanValue): model.Value {
+		return new model.Value({ text: value.span.text, position: - 1 });
+	}
+
+	visitNullValue(value: webidl.model.NullValue): model.Value {
+		return new model.Value({ text: "null", position: - 1 });
+	}
+
+	visitEmptySequenceValue(value: webidl.model.EmptySequenceValue): model.Value {
+		return new model.Value({ text: "[]", position: - 1 });
+	}
+
+	visitEmptyDictionaryValue(value: webidl.model.EmptyDictionaryValue): model.Value {
+		return new model.Value({ text: "{}", position: - 1 });
+	}
+}
+
+function span(text: string): TextSpan {
+	return { text, position: - 1 };
+}
+
+function simple(text: string): model.SimpleType {
+	return new model.SimpleType(false, span(text));
+}
+
+function method(name: string, rtype: string, ...args: model.Argument[]): model.MethodMember {
+	return new model.MethodMember(span(name), false, simple(rtype), args);
+}
+
+function parameter(name: string, type: string, optional = false): model.Argument {
+	return new model.Argument(span(name), optional, simple(type));
+}
+
 function flatten<T>(lists: T[][]): T[] {
 	return lists.reduce((list, item) => {
 		return list.concat(item);
@@ -325,14 +443,49 @@ function flatten<T>(lists: T[][]): T[] {
 
 export class Generator implements webidl.ISyntaxVisitor<model.Statement[]> {
 	private mapping: TypeMapping;
+	private values: ValueMapping;
+	private resolver: Resolver;
 
-	constructor() {
+	/**
+	 * @param resolver Needed to look into the interfaces a definition inherits from.
+	 */
+	constructor(resolver: Resolver = null) {
 		this.mapping = new TypeMapping();
+		this.values = new ValueMapping();
+		this.resolver = resolver;
+	}
+
+	private ancestry(def: webidl.model.InterfaceDefinition): webidl.model.InterfaceDefinition[] {
+		let chain = [def];
+		let base = this.resolver ? this.resolver.getBaseInterface(def) : null;
+
+		while (base && chain.indexOf(base) < 0) {
+			chain.push(base);
+			base = this.resolver.getBaseInterface(base);
+		}
+
+		return chain;
 	}
 
 	private argument(arg: webidl.model.Argument): model.Argument {
 		let type = arg.type.accept(this.mapping);
-		return new model.Argument(arg.identifier, arg.optional, type);
+		let def = arg.def ? arg.def.accept(this.values) : null;
+
+		// Variadic arguments become a rest parameter of an array type:
+		if (arg.variadic) {
+			type = new model.SimpleType(false, { text: type.span.text + "[]", position: -1 });
+		}
+
+		return new model.Argument(arg.identifier, arg.optional, type, def, arg.variadic);
+	}
+
+	private returnType(type: webidl.model.Type): model.Type {
+		// Both `void` and `undefined` return nothing:
+		if (!type || (type instanceof webidl.model.SimpleType && type.span.text === "undefined")) {
+			return null;
+		}
+
+		return type.accept(this.mapping);
 	}
 
 	visitExtendedAttribute(attr: webidl.model.ExtendedAttribute): model.Statement[] {
@@ -355,8 +508,32 @@ export class Generator implements webidl.ISyntaxVisitor<model.Statement[]> {
 		return [];
 	}
 
+	visitExtendedAttributeWildcard(attr: webidl.model.ExtendedAttributeWildcard): model.Statement[] {
+		return [];
+	}
+
+	visitExtendedAttributeLiteral(attr: webidl.model.ExtendedAttributeLiteral): model.Statement[] {
+		return [];
+	}
+
+	visitExtendedAttributeRaw(attr: webidl.model.ExtendedAttributeRaw): model.Statement[] {
+		return [];
+	}
+
+	visitErrorNode(node: webidl.model.ErrorNode): model.Statement[] {
+		return [];
+	}
+
+	visitErrorMember(mem: webidl.model.ErrorMember): model.Statement[] {
+		return [];
+	}
+
+	visitErrorDictionaryMember(mem: webidl.model.ErrorDictionaryMember): model.Statement[] {
+		return [];
+	}
+
 	visitCallbackDefinition(def: webidl.model.CallbackDefinition): model.Statement[] {
-		let rtype = def.rtype ? def.rtype.accept(this.mapping) : null;
+		let rtype = this.returnType(def.rtype);
 		let args = def.args.map((arg) => this.argument(arg));
 		let type = new model.FunctionType(rtype, args);
 
@@ -367,6 +544,13 @@ export class Generator implements webidl.ISyntaxVisitor<model.Statement[]> {
 
 	visitInterfaceDefinition(def: webidl.model.InterfaceDefinition): model.Statement[] {
 		let members = <model.InterfaceMember[]>flatten(def.members.filter((mem) => !(mem instanceof webidl.model.StaticMember)).map((mem) => mem.accept(this)));
+		let declarations = new Array<model.Statement>();
+		let serializers = <webidl.model.SerializerMember[]>def.members.filter((mem) => mem instanceof webidl.model.SerializerMember);
+
+		if (serializers.length > 0) {
+			members.push(...this.serializer(def, serializers, declarations));
+		}
+
 		let stmt: model.Statement = new model.Interface(def.identifier, [def.inheritance], members);
 
 		let ref = new model.SimpleType(false, def.identifier);
@@ -381,6 +565,10 @@ export class Generator implements webidl.ISyntaxVisitor<model.Statement[]> {
 				let args = attr.args.map((arg) => this.argument(arg));
 				let ctor = new model.MethodMember({ text: "new", position: - 1 }, false, ref, args);
 				static_statements.push(ctor);
+			} else if (attr instanceof webidl.model.ConstructorMember) {
+				let args = attr.args.map((arg) => this.argument(arg));
+				let ctor = new model.MethodMember({ text: "new", position: - 1 }, false, ref, args);
+				static_statements.push(ctor);
 			} else {
 				let ctor = new model.MethodMember({ text: "new", position: - 1 }, false, ref, []);
 				static_statements.push(ctor);
@@ -390,12 +578,95 @@ export class Generator implements webidl.ISyntaxVisitor<model.Statement[]> {
 
 		if (static_statements.length > 1) {
 			let decl = new model.Declaration(def.identifier, new model.ConstructedType(static_statements));
-			return [stmt, decl];
+			return [stmt, ...declarations, decl];
 		} else {
-			return [stmt];
+			return [stmt, ...declarations];
 		}
 	}
 
+	/**
+	 * Map patterns are declared as a separate `<Interface>JSON` interface, so that inheriting patterns can extend it.
+	 * The map patterns of all serializers of an interface, e.g. from its partial interfaces, go into the same declaration.
+	 * @param def
+	 * @param serializers
+	 * @param declarations
+	 * @return A `toJSON()` method for each type of serialization and the serializer operations.
+	 */
+	private serializer(def: webidl.model.InterfaceDefinition, serializers: webidl.model.SerializerMember[], declarations: model.Statement[]): model.InterfaceMember[] {
+		let ancestry = this.ancestry(def);
+		let attributes = <webidl.model.AttributeMember[]>def.members.filter((mem) => mem instanceof webidl.model.AttributeMember);
+		let attribute = (id: TextSpan) => {
+			let members = flatten(ancestry.map((def) => def.members));
+			let attr = <webidl.model.AttributeMember>members.find((mem) => mem instanceof webidl.model.AttributeMember && mem.identifier.text === id.text);
+			return attr ? attr.type.accept(this.mapping) : simple("any");
+		};
+
+		let members = new Array<model.InterfaceMember>();
+		let types = new Array<model.Type>();
+		let ids = new Array<TextSpan>();
+		let inherit = false;
+
+		for (let mem of serializers) {
+			if (mem.operation) {
+				if (mem.operation.identifier && mem.operation.identifier.text !== "toJSON") {
+					members.push(...<model.InterfaceMember[]>mem.operation.accept(this));
+				}
+
+				types.push(this.returnType(mem.operation.rtype));
+				continue;
+			}
+
+			// The default serializer is the same as `serializer = { attribute };`:
+			let pattern = mem.pattern || new webidl.model.SerializationPattern(webidl.model.SerializationPatternKind.map, false, false, [span("attribute")]);
+
+			if (pattern.getter) {
+				types.push(simple(pattern.kind === webidl.model.SerializationPatternKind.list ? "any[]" : "any"));
+				continue;
+			}
+
+			switch (pattern.kind) {
+				case webidl.model.SerializationPatternKind.map:
+					ids.push(...(pattern.attribute ? attributes.map((attr) => attr.identifier) : []), ...pattern.identifiers);
+					inherit = inherit || pattern.inherit;
+					break;
+				case webidl.model.SerializationPatternKind.list:
+					types.push(simple("[" + pattern.identifiers.map((id) => attribute(id).span.text).join(", ") + "]"));
+					break;
+				case webidl.model.SerializationPatternKind.identifier:
+					types.push(attribute(pattern.identifiers[0]));
+					break;
+			}
+		}
+
+		if (ids.length > 0 || inherit) {
+			let identifier = span(def.identifier.text + "JSON");
+			let inheritance = inherit ? this.serializable(def).map((base) => span(base.text + "JSON")) : [];
+			let unique = ids.filter((id, i) => ids.findIndex((other) => other.text === id.text) === i);
+
+			declarations.push(new model.Interface(identifier, inheritance, unique.map((id) => new model.AttributeMember(id, false, attribute(id), null))));
+			types.push(new model.SimpleType(false, identifier));
+		}
+
+		return members.concat(types.map((type) => new model.MethodMember(span("toJSON"), false, type, [])));
+	}
+
+	/**
+	 * The nearest interface inherited from with a map serializer, only the inheritance itself without a resolver.
+	 * @param def
+	 * @return
+	 */
+	private serializable(def: webidl.model.InterfaceDefinition): TextSpan[] {
+		if (!this.resolver) {
+			return def.inheritance ? [def.inheritance] : [];
+		}
+
+		let base = this.ancestry(def).slice(1).find((base) => base.members.some((mem) => {
+			return mem instanceof webidl.model.SerializerMember && !mem.operation && (!mem.pattern || (mem.pattern.kind === webidl.model.SerializationPatternKind.map && !mem.pattern.getter));
+		}));
+
+		return base ? [base.identifier] : [];
+	}
+
 	visitDictionaryDefinition(def: webidl.model.DictionaryDefinition): model.Statement[] {
 		let members = <model.InterfaceMember[]>flatten(def.members.map((mem) => mem.accept(this)));
 
@@ -422,6 +693,44 @@ export class Generator implements webidl.ISyntaxVisitor<model.Statement[]> {
 		return iface.accept(this);
 	}
 
+	visitInterfaceMixinDefinition(def: webidl.model.InterfaceMixinDefinition): model.Statement[] {
+		let members = <model.InterfaceMember[]>flatten(def.members.map((mem) => mem.accept(this)));
+
+		return [
+			new model.Interface(def.identifier, [], members)
+		];
+	}
+
+	visitIncludesStatement(def: webidl.model.IncludesStatement): model.Statement[] {
+		// Merges into the declaration of the including interface:
+		return [
+			new model.Interface(def.identifier, [def.name], [])
+		];
+	}
+
+	visitNamespaceDefinition(def: webidl.model.NamespaceDefinition): model.Statement[] {
+		let statements = def.members.map((mem) => this.declaration(mem)).filter((stmt) => stmt != null);
+
+		return [
+			new model.Namespace(def.identifier, statements)
+		];
+	}
+
+	private declaration(mem: webidl.model.InterfaceMember): model.Statement {
+		if (mem instanceof webidl.model.OperationMember) {
+			let args = mem.args.map((arg) => this.argument(arg));
+			let type = this.returnType(mem.rtype);
+			return new model.FunctionDeclaration(mem.identifier, type, args);
+		} else if (mem instanceof webidl.model.AttributeMember) {
+			// Attributes of namespaces are always read only:
+			return new model.VariableDeclaration(mem.identifier, true, mem.type.accept(this.mapping));
+		} else if (mem instanceof webidl.model.ConstMember) {
+			return new model.VariableDeclaration(mem.identifier, true, mem.type.accept(this.mapping));
+		} else {
+			return null;
+		}
+	}
+
 	visitConstMember(mem: webidl.model.ConstMember): model.Statement[] {
 		let type = mem.type.accept(this.mapping);
 		let attr = new model.AttributeMember(mem.identifier, false, type, null);
@@ -431,31 +740,111 @@ export class Generator implements webidl.ISyntaxVisitor<model.Statement[]> {
 
 	visitAttributeMember(mem: webidl.model.AttributeMember): model.Statement[] {
 		let type = mem.type.accept(this.mapping);
-		let attr = new model.AttributeMember(mem.identifier, false, type, null);
+		let attr = new model.AttributeMember(mem.identifier, false, type, null, mem.readonly);
 
 		return [attr];
 	}
 
 	visitOperationMember(mem: webidl.model.OperationMember): model.Statement[] {
 		let args = mem.args.map((arg) => this.argument(arg));
-		let type = mem.rtype ? mem.rtype.accept(this.mapping) : null;
+		let type = this.returnType(mem.rtype);
 		let op = new model.MethodMember(mem.identifier, false, type, args);
 		return [op];
 	}
 
-	visitStaticMember(mem: webidl.model.StaticMember): model.Statement[] {
+	visitConstructorMember(mem: webidl.model.ConstructorMember): model.Statement[] {
+		// Emitted as `new` signatures of the interface declaration:
 		return [];
 	}
 
+	visitStaticMember(mem: webidl.model.StaticMember): model.Statement[] {
+		// Collected into the declaration of the interface:
+		return mem.member.accept(this);
+	}
+
 	visitIterableMember(mem: webidl.model.IterableMember): model.Statement[] {
-		return [];
+		if (!mem.async) {
+			return [];
+		}
+
+		let args = mem.args.map((arg) => this.argument(arg));
+		let value = mem.value.accept(this.mapping).span.text;
+
+		// Value iterators only have `values()`:
+		if (!mem.key) {
+			return [
+				method("[Symbol.asyncIterator]", "AsyncIterableIterator<" + value + ">", ...args),
+				method("values", "AsyncIterableIterator<" + value + ">", ...args)
+			];
+		}
+
+		let key = mem.key.accept(this.mapping).span.text;
+		let entry = "[" + key + ", " + value + "]";
+
+		return [
+			method("[Symbol.asyncIterator]", "AsyncIterableIterator<" + entry + ">", ...args),
+			method("entries", "AsyncIterableIterator<" + entry + ">", ...args),
+			method("keys", "AsyncIterableIterator<" + key + ">", ...args),
+			method("values", "AsyncIterableIterator<" + value + ">", ...args)
+		];
 	}
 
 	visitMaplikeMember(mem: webidl.model.MaplikeMember): model.Statement[] {
-		return [];
+		let key = mem.key.accept(this.mapping).span.text;
+		let value = mem.value.accept(this.mapping).span.text;
+		let entry = "[" + key + ", " + value + "]";
+		let callback = "(value: " + value + ", key: " + key + ", map: this) => void";
+
+		let members: model.Statement[] = [
+			new model.AttributeMember(span("size"), false, simple("number"), null, true),
+			method("[Symbol.iterator]", "IterableIterator<" + entry + ">"),
+			method("entries", "IterableIterator<" + entry + ">"),
+			method("keys", "IterableIterator<" + key + ">"),
+			method("values", "IterableIterator<" + value + ">"),
+			method("forEach", "void", parameter("callback", callback), parameter("thisArg", "any", true)),
+			method("get", value + " | undefined", parameter("key", key)),
+			method("has", "boolean", parameter("key", key))
+		];
+
+		if (!mem.readonly) {
+			members.push(
+				method("set", "this", parameter("key", key), parameter("value", value)),
+				method("delete", "boolean", parameter("key", key)),
+				method("clear", "void")
+			);
+		}
+
+		return members;
 	}
 
 	visitSetlikeMember(mem: webidl.model.SetlikeMember): model.Statement[] {
+		let value = mem.value.accept(this.mapping).span.text;
+		let entry = "[" + value + ", " + value + "]";
+		let callback = "(value: " + value + ", key: " + value + ", set: this) => void";
+
+		let members: model.Statement[] = [
+			new model.AttributeMember(span("size"), false, simple("number"), null, true),
+			method("[Symbol.iterator]", "IterableIterator<" + value + ">"),
+			method("entries", "IterableIterator<" + entry + ">"),
+			method("keys", "IterableIterator<" + value + ">"),
+			method("values", "IterableIterator<" + value + ">"),
+			method("forEach", "void", parameter("callback", callback), parameter("thisArg", "any", true)),
+			method("has", "boolean", parameter("value", value))
+		];
+
+		if (!mem.readonly) {
+			members.push(
+				method("add", "this", parameter("value", value)),
+				method("delete", "boolean", parameter("value", value)),
+				method("clear", "void")
+			);
+		}
+
+		return members;
+	}
+
+	visitSerializerMember(mem: webidl.model.SerializerMember): model.Statement[] {
+		// Emitted as `toJSON()` with the other members of the interface:
 		return [];
 	}
 
@@ -469,7 +858,8 @@ export class Generator implements webidl.ISyntaxVisitor<model.Statement[]> {
 
 	visitDictionaryMember(mem: webidl.model.DictionaryMember): model.Statement[] {
 		let type = mem.type.accept(this.mapping);
-		let stmt = new model.AttributeMember(mem.identifier, true, type, null);
+		let def = mem.def ? mem.def.accept(this.values) : null;
+		let stmt = new model.AttributeMember(mem.identifier, true, type, def);
 		return [stmt];
 	}
 }
@@ -483,6 +873,9 @@ export interface ISyntaxVisitor<T> {
 	visitDeclaration?(stmt: model.Declaration): T;
 	visitTypedef?(stmt: model.Typedef): T;
 	visitEnum?(stmt: model.Enum): T;
+	visitNamespace?(stmt: model.Namespace): T;
+	visitFunctionDeclaration?(stmt: model.FunctionDeclaration): T;
+	visitVariableDeclaration?(stmt: model.VariableDeclaration): T;
 	visitMethodMember?(mem: model.MethodMember): T;
 	visitArgument?(arg: model.Argument): T;
 	visitAttributeMember?(mem: model.AttributeMember): T;
@@ -549,11 +942,15 @@ export namespace model {
 		identifier: TextSpan;
 		optional: boolean;
 		type: SimpleType;
+		def: Value;
+		rest: boolean;
 
-		constructor(identifier: TextSpan, optional: boolean, type: SimpleType) {
+		constructor(identifier: TextSpan, optional: boolean, type: SimpleType, def: Value = null, rest = false) {
 			this.identifier = identifier;
 			this.optional = optional;
 			this.type = type;
+			this.def = def;
+			this.rest = rest;
 		}
 
 		accept<T>(visitor: ISyntaxVisitor<T>): T {
@@ -564,11 +961,13 @@ export namespace model {
 	export class AttributeMember extends InterfaceMember {
 		type: Type;
 		def: Value;
+		readonly: boolean;
 
-		constructor(identifier: TextSpan, optional: boolean, type: Type, def: Value) {
+		constructor(identifier: TextSpan, optional: boolean, type: Type, def: Value, readonly = false) {
 			super(identifier, optional);
 			this.type = type;
 			this.def = def;
+			this.readonly = readonly;
 		}
 
 		accept<T>(visitor: ISyntaxVisitor<T>): T {
@@ -615,6 +1014,49 @@ export namespace model {
 		}
 	}
 
+	export class Namespace extends Statement {
+		statements: Statement[];
+
+		constructor(identifier: TextSpan, statements: Statement[]) {
+			super(identifier);
+			this.statements = statements;
+		}
+
+		accept<T>(visitor: ISyntaxVisitor<T>): T {
+			return visitor.visitNamespace(this);
+		}
+	}
+
+	export class FunctionDeclaration extends Statement {
+		rtype: Type;
+		args: Argument[];
+
+		constructor(identifier: TextSpan, rtype: Type, args: Argument[]) {
+			super(identifier);
+			this.rtype = rtype;
+			this.args = args;
+		}
+
+		accept<T>(visitor: ISyntaxVisitor<T>): T {
+			return visitor.visitFunctionDeclaration(this);
+		}
+	}
+
+	export class VariableDeclaration extends Statement {
+		constant: boolean;
+		type: Type;
+
+		constructor(identifier: TextSpan, constant: boolean, type: Type) {
+			super(identifier);
+			this.constant = constant;
+			this.type = type;
+		}
+
+		accept<T>(visitor: ISyntaxVisitor<T>): T {
+			return visitor.visitVariableDeclaration(this);
+		}
+	}
+
 	export abstract class Type extends Expression {
 		abstract accept<T>(visitor: ISyntaxVisitor<T>): T;
 	}
@@ -2,8 +2,8 @@
 /// <reference path="parser.ts" />
 "use strict";
 
-import { TextSpan, TokenKind } from "./tokenizer";
-import { IParser, create, choose, choose_backtracking, many, optional, combine, exists, fail, map, token, name, constant } from "./parser";
+import { TextSpan, TextRange, Token, TokenKind, print as print_tokens } from "./tokenizer";
+import { Cursor, IParser, ParserError, create, choose, choose_backtracking, many, optional, combine, exists, map, token, name, constant, recover, furthest, memoize, traced } from "./parser";
 
 const COMMON_ARRAYBUFFERVIEW = "typedef (Int8Array or Int16Array or Int32Array or Uint8Array or Uint16Array or Uint32Array or Uint8ClampedArray or Float32Array or Float64Array or DataView) ArrayBufferView;";
 const COMMON_BUFFERSOURCE = "typedef (ArrayBufferView or ArrayBuffer) BufferSource;";
@@ -22,20 +22,31 @@ export interface ISyntaxVisitor<T> {
 	visitExtendedAttributeIdent?(attr: model.ExtendedAttributeIdent): T;
 	visitExtendedAttributeIdentList?(attr: model.ExtendedAttributeIdentList): T;
 	visitExtendedAttributeNamedArgList?(attr: model.ExtendedAttributeNamedArgList): T;
+	visitExtendedAttributeWildcard?(attr: model.ExtendedAttributeWildcard): T;
+	visitExtendedAttributeLiteral?(attr: model.ExtendedAttributeLiteral): T;
+	visitExtendedAttributeRaw?(attr: model.ExtendedAttributeRaw): T;
+	visitErrorNode?(node: model.ErrorNode): T;
+	visitErrorMember?(mem: model.ErrorMember): T;
+	visitErrorDictionaryMember?(mem: model.ErrorDictionaryMember): T;
 	visitCallbackDefinition?(def: model.CallbackDefinition): T;
 	visitInterfaceDefinition?(def: model.InterfaceDefinition): T;
 	visitDictionaryDefinition?(def: model.DictionaryDefinition): T;
 	visitEnumDefinition?(def: model.EnumDefinition): T;
 	visitTypedef?(def: model.Typedef): T;
 	visitImplementsStatement?(def: model.ImplementsStatement): T;
+	visitInterfaceMixinDefinition?(def: model.InterfaceMixinDefinition): T;
+	visitIncludesStatement?(def: model.IncludesStatement): T;
+	visitNamespaceDefinition?(def: model.NamespaceDefinition): T;
 	visitConstMember?(mem: model.ConstMember): T;
 	visitAttributeMember?(mem: model.AttributeMember): T;
 	visitOperationMember?(mem: model.OperationMember): T;
+	visitConstructorMember?(mem: model.ConstructorMember): T;
 	visitArgument?(arg: model.Argument): T;
 	visitStaticMember?(mem: model.StaticMember): T;
 	visitIterableMember?(mem: model.IterableMember): T;
 	visitMaplikeMember?(mem: model.MaplikeMember): T;
 	visitSetlikeMember?(mem: model.SetlikeMember): T;
+	visitSerializerMember?(mem: model.SerializerMember): T;
 	visitStringifierMember?(mem: model.StringifierMember): T;
 	visitDictionaryMember?(mem: model.DictionaryMember): T;
 	visitSimpleType?(type: model.SimpleType): T;
@@ -43,10 +54,16 @@ export interface ISyntaxVisitor<T> {
 	visitSequenceType?(type: model.SequenceType): T;
 	visitFrozenArrayType?(type: model.FrozenArrayType): T;
 	visitPromiseType?(type: model.PromiseType): T;
+	visitRecordType?(type: model.RecordType): T;
 	visitUnionType?(type: model.UnionType): T;
 	visitFloatType?(type: model.FloatType): T;
 	visitIntegerType?(type: model.IntegerType): T;
-	visitSimpleValue?(value: model.SimpleValue): T;
+	visitStringValue?(value: model.StringValue): T;
+	visitNumberValue?(value: model.NumberValue): T;
+	visitBooleanValue?(value: model.BooleanValue): T;
+	visitNullValue?(value: model.NullValue): T;
+	visitEmptySequenceValue?(value: model.EmptySequenceValue): T;
+	visitEmptyDictionaryValue?(value: model.EmptyDictionaryValue): T;
 }
 
 export interface ISyntax {
@@ -69,11 +86,47 @@ export function lookupMany<T extends ISymbol>(options: T[], identifier: string):
 	});
 }
 
+/**
+ * Prints nodes back to IDL, including comments and formatting, when parsed from tokens with trivia attached.
+ * @param nodes
+ * @param eof The end of file token, holding the trivia after the last node.
+ * @return
+ */
+export function print(nodes: model.Node[], eof: Token = null): string {
+	let text = nodes.map((node) => print_tokens(node.tokens)).join("");
+
+	if (eof) {
+		text += print_tokens([eof]);
+	}
+
+	return text;
+}
+
 export namespace model {
-	export class ExtendedAttribute implements ISyntax, ISymbol {
+	export abstract class Node implements ISyntax {
+		/**
+		 * The tokens the node was parsed from.
+		 */
+		tokens: Token[];
+
+		get range(): TextRange {
+			if (!this.tokens || this.tokens.length === 0) {
+				return null;
+			}
+
+			let first = this.tokens[0];
+			let last = this.tokens[this.tokens.length - 1];
+			return { start: first.range.start, end: last.range.end };
+		}
+
+		abstract accept<T>(visitor: ISyntaxVisitor<T>): T;
+	}
+
+	export class ExtendedAttribute extends Node implements ISymbol {
 		identifier: TextSpan
 
 		constructor(identifier: TextSpan) {
+			super();
 			this.identifier = identifier;
 		}
 
@@ -136,17 +189,77 @@ export namespace model {
 		}
 	}
 
-	export abstract class Definition implements ISyntax, ISymbol {
+	export class ExtendedAttributeWildcard extends ExtendedAttribute {
+		constructor(identifier: TextSpan) {
+			super(identifier);
+		}
+
+		accept<T>(visitor: ISyntaxVisitor<T>): T {
+			return visitor.visitExtendedAttributeWildcard(this);
+		}
+	}
+
+	/**
+	 * A string, integer or decimal value, strings keep their quotes.
+	 */
+	export class ExtendedAttributeLiteral extends ExtendedAttribute {
+		value: TextSpan;
+
+		constructor(identifier: TextSpan, value: TextSpan) {
+			super(identifier);
+			this.value = value;
+		}
+
+		accept<T>(visitor: ISyntaxVisitor<T>): T {
+			return visitor.visitExtendedAttributeLiteral(this);
+		}
+	}
+
+	/**
+	 * Any other extended attribute, as the first token and the tokens after it.
+	 */
+	export class ExtendedAttributeRaw extends ExtendedAttribute {
+		values: TextSpan[];
+
+		constructor(identifier: TextSpan, values: TextSpan[]) {
+			super(identifier);
+			this.values = values;
+		}
+
+		accept<T>(visitor: ISyntaxVisitor<T>): T {
+			return visitor.visitExtendedAttributeRaw(this);
+		}
+	}
+
+	export abstract class Definition extends Node implements ISymbol {
 		attributes: ExtendedAttribute[];
 		identifier: TextSpan;
 
 		constructor(identifier: TextSpan) {
+			super();
 			this.identifier = identifier;
 		}
 
 		abstract accept<T>(visitor: ISyntaxVisitor<T>): T;
 	}
 
+	/**
+	 * Tokens skipped after a syntax error, in place of a definition.
+	 */
+	export class ErrorNode extends Definition {
+		errors: ParserError[];
+
+		constructor(errors: ParserError[]) {
+			super(null);
+			this.attributes = [];
+			this.errors = errors;
+		}
+
+		accept<T>(visitor: ISyntaxVisitor<T>): T {
+			return visitor.visitErrorNode(this);
+		}
+	}
+
 	export class CallbackDefinition extends Definition {
 		rtype: Type;
 		args: Argument[];
@@ -165,15 +278,22 @@ export namespace model {
 	export class InterfaceDefinition extends Definition {
 		inheritance: TextSpan;
 		members: InterfaceMember[];
+		partial: boolean;
+		callback: boolean;
 
-		constructor(identifier: TextSpan, inheritance: TextSpan, members: InterfaceMember[]) {
+		constructor(identifier: TextSpan, inheritance: TextSpan, members: InterfaceMember[], partial = false, callback = false) {
 			super(identifier);
 			this.inheritance = inheritance;
 			this.members = members;
+			this.partial = partial;
+			this.callback = callback;
 		}
 
-		getConstructors(): ExtendedAttribute[] {
-			return lookupMany(this.attributes, "Constructor").concat(lookupMany(this.attributes, "NamedConstructor"));
+		getConstructors(): (ExtendedAttribute | ConstructorMember)[] {
+			let members = <ConstructorMember[]>this.members.filter((mem) => mem instanceof ConstructorMember);
+			let attributes = lookupMany(this.attributes, "Constructor").concat(lookupMany(this.attributes, "NamedConstructor"));
+
+			return (<(ExtendedAttribute | ConstructorMember)[]>members).concat(attributes);
 		}
 
 		isGlobal(): boolean {
@@ -192,11 +312,13 @@ export namespace model {
 	export class DictionaryDefinition extends Definition {
 		inheritance: TextSpan;
 		members: DictionaryMember[];
+		partial: boolean;
 
-		constructor(identifier: TextSpan, inheritance: TextSpan, members: DictionaryMember[]) {
+		constructor(identifier: TextSpan, inheritance: TextSpan, members: DictionaryMember[], partial = false) {
 			super(identifier);
 			this.inheritance = inheritance;
 			this.members = members;
+			this.partial = partial;
 		}
 
 		accept<T>(visitor: ISyntaxVisitor<T>): T {
@@ -243,17 +365,78 @@ export namespace model {
 		}
 	}
 
-	export abstract class InterfaceMember implements ISyntax {
+	export class InterfaceMixinDefinition extends Definition {
+		members: InterfaceMember[];
+		partial: boolean;
+
+		constructor(identifier: TextSpan, members: InterfaceMember[], partial = false) {
+			super(identifier);
+			this.members = members;
+			this.partial = partial;
+		}
+
+		accept<T>(visitor: ISyntaxVisitor<T>): T {
+			return visitor.visitInterfaceMixinDefinition(this);
+		}
+	}
+
+	export class IncludesStatement extends Definition {
+		name: TextSpan;
+
+		constructor(identifier: TextSpan, name: TextSpan) {
+			super(identifier);
+			this.name = name;
+		}
+
+		accept<T>(visitor: ISyntaxVisitor<T>): T {
+			return visitor.visitIncludesStatement(this);
+		}
+	}
+
+	export class NamespaceDefinition extends Definition {
+		members: InterfaceMember[];
+		partial: boolean;
+
+		constructor(identifier: TextSpan, members: InterfaceMember[], partial = false) {
+			super(identifier);
+			this.members = members;
+			this.partial = partial;
+		}
+
+		accept<T>(visitor: ISyntaxVisitor<T>): T {
+			return visitor.visitNamespaceDefinition(this);
+		}
+	}
+
+	export abstract class InterfaceMember extends Node {
 		attributes: ExtendedAttribute[];
 		identifier: TextSpan;
 
 		constructor(identifier: TextSpan) {
+			super();
 			this.identifier = identifier;
 		}
 
 		abstract accept<T>(visitor: ISyntaxVisitor<T>): T;
 	}
 
+	/**
+	 * Tokens skipped after a syntax error, in place of an interface member.
+	 */
+	export class ErrorMember extends InterfaceMember {
+		errors: ParserError[];
+
+		constructor(errors: ParserError[]) {
+			super(null);
+			this.attributes = [];
+			this.errors = errors;
+		}
+
+		accept<T>(visitor: ISyntaxVisitor<T>): T {
+			return visitor.visitErrorMember(this);
+		}
+	}
+
 	export class ConstMember extends InterfaceMember {
 		type: Type;
 		value: Value;
@@ -323,7 +506,20 @@ export namespace model {
 		}
 	}
 
-	export class Argument implements ISyntax, ISymbol {
+	export class ConstructorMember extends InterfaceMember {
+		args: Argument[];
+
+		constructor(args: Argument[]) {
+			super(null);
+			this.args = args;
+		}
+
+		accept<T>(visitor: ISyntaxVisitor<T>): T {
+			return visitor.visitConstructorMember(this);
+		}
+	}
+
+	export class Argument extends Node implements ISymbol {
 		attributes: ExtendedAttribute[];
 		optional: boolean;
 		type: Type;
@@ -332,6 +528,7 @@ export namespace model {
 		def: Value;
 
 		constructor(optional: boolean, type: Type, variadic: boolean, identifier: TextSpan, def: Value) {
+			super();
 			this.optional = optional;
 			this.type = type;
 			this.variadic = variadic;
@@ -358,13 +555,17 @@ export namespace model {
 	}
 
 	export class IterableMember extends InterfaceMember {
+		async: boolean;
 		key: Type;
 		value: Type;
+		args: Argument[];
 
-		constructor(key: Type, value: Type) {
+		constructor(key: Type, value: Type, async = false, args: Argument[] = []) {
 			super(null);
+			this.async = async;
 			this.key = key;
 			this.value = value;
+			this.args = args;
 		}
 
 		accept<T>(visitor: ISyntaxVisitor<T>): T {
@@ -404,6 +605,46 @@ export namespace model {
 		}
 	}
 
+	export enum SerializationPatternKind {
+		map,
+		list,
+		identifier
+	}
+
+	export class SerializationPattern {
+		kind: SerializationPatternKind;
+		getter: boolean;
+		inherit: boolean;
+		attribute: boolean;
+		identifiers: TextSpan[];
+
+		constructor(kind: SerializationPatternKind, getter: boolean, inherit: boolean, names: TextSpan[]) {
+			this.kind = kind;
+			this.getter = getter;
+			this.inherit = inherit;
+			this.attribute = names.some((name) => name.text === "attribute");
+			this.identifiers = names.filter((name) => name.text !== "attribute");
+		}
+	}
+
+	/**
+	 * Either an operation, a pattern or neither for the default serializer.
+	 */
+	export class SerializerMember extends InterfaceMember {
+		operation: OperationMember;
+		pattern: SerializationPattern;
+
+		constructor(operation: OperationMember, pattern: SerializationPattern) {
+			super(operation ? operation.identifier : null);
+			this.operation = operation;
+			this.pattern = pattern;
+		}
+
+		accept<T>(visitor: ISyntaxVisitor<T>): T {
+			return visitor.visitSerializerMember(this);
+		}
+	}
+
 	export class StringifierMember extends InterfaceMember {
 		mem: InterfaceMember;
 
@@ -421,7 +662,7 @@ export namespace model {
 		}
 	}
 
-	export class DictionaryMember implements ISyntax {
+	export class DictionaryMember extends Node {
 		attributes: ExtendedAttribute[];
 		required: boolean;
 		type: Type;
@@ -429,6 +670,7 @@ export namespace model {
 		def: Value;
 
 		constructor(required: boolean, type: Type, identifier: TextSpan, def: Value) {
+			super();
 			this.required = required;
 			this.type = type;
 			this.identifier = identifier;
@@ -440,7 +682,24 @@ export namespace model {
 		}
 	}
 
-	export abstract class Type implements ISyntax {
+	/**
+	 * Tokens skipped after a syntax error, in place of a dictionary member.
+	 */
+	export class ErrorDictionaryMember extends DictionaryMember {
+		errors: ParserError[];
+
+		constructor(errors: ParserError[]) {
+			super(false, null, null, null);
+			this.attributes = [];
+			this.errors = errors;
+		}
+
+		accept<T>(visitor: ISyntaxVisitor<T>): T {
+			return visitor.visitErrorDictionaryMember(this);
+		}
+	}
+
+	export abstract class Type extends Node {
 		abstract accept<T>(visitor: ISyntaxVisitor<T>): T;
 	}
 
@@ -511,6 +770,21 @@ export namespace model {
 		}
 	}
 
+	export class RecordType extends Type {
+		key: Type;
+		value: Type;
+
+		constructor(key: Type, value: Type) {
+			super();
+			this.key = key;
+			this.value = value;
+		}
+
+		accept<T>(visitor: ISyntaxVisitor<T>): T {
+			return visitor.visitRecordType(this);
+		}
+	}
+
 	export class UnionType extends Type {
 		types: Type[];
 
@@ -576,11 +850,7 @@ export namespace model {
 		}
 	}
 
-	export abstract class Value implements ISyntax {
-		abstract accept<T>(visitor: ISyntaxVisitor<T>): T;
-	}
-
-	export class SimpleValue extends Value {
+	export abstract class Value extends Node {
 		span: TextSpan;
 
 		constructor(span: TextSpan) {
@@ -588,13 +858,124 @@ export namespace model {
 			this.span = span;
 		}
 
+		abstract accept<T>(visitor: ISyntaxVisitor<T>): T;
+	}
+
+	export class StringValue extends Value {
+		constructor(span: TextSpan) {
+			super(span);
+		}
+
+		/**
+		 * The text between the quotes, WebIDL strings have no escapes.
+		 */
+		get value(): string {
+			return this.span.text.slice(1, -1);
+		}
+
+		accept<T>(visitor: ISyntaxVisitor<T>): T {
+			return visitor.visitStringValue(this);
+		}
+	}
+
+	/**
+	 * Integers in decimal, hexadecimal or octal, decimals, `Infinity`, `-Infinity` and `NaN`.
+	 */
+	export class NumberValue extends Value {
+		constructor(span: TextSpan) {
+			super(span);
+		}
+
+		get value(): number {
+			let text = this.span.text;
+			let sign = text[0] === "-" ? -1 : 1;
+			let digits = sign < 0 ? text.slice(1) : text;
+
+			if (digits === "Infinity") {
+				return sign * Infinity;
+			} else if (/^0[Xx]/.test(digits)) {
+				return sign * parseInt(digits.slice(2), 16);
+			} else if (/^0[0-7]+$/.test(digits)) {
+				return sign * parseInt(digits, 8);
+			} else {
+				return sign * parseFloat(digits);
+			}
+		}
+
+		accept<T>(visitor: ISyntaxVisitor<T>): T {
+			return visitor.visitNumberValue(this);
+		}
+	}
+
+	export class BooleanValue extends Value {
+		constructor(span: TextSpan) {
+			super(span);
+		}
+
+		get value(): boolean {
+			return this.span.text === "true";
+		}
+
+		accept<T>(visitor: ISyntaxVisitor<T>): T {
+			return visitor.visitBooleanValue(this);
+		}
+	}
+
+	export class NullValue extends Value {
+		constructor(span: TextSpan) {
+			super(span);
+		}
+
+		accept<T>(visitor: ISyntaxVisitor<T>): T {
+			return visitor.visitNullValue(this);
+		}
+	}
+
+	export class EmptySequenceValue extends Value {
+		constructor(span: TextSpan) {
+			super(span);
+		}
+
+		accept<T>(visitor: ISyntaxVisitor<T>): T {
+			return visitor.visitEmptySequenceValue(this);
+		}
+	}
+
+	export class EmptyDictionaryValue extends Value {
+		constructor(span: TextSpan) {
+			super(span);
+		}
+
 		accept<T>(visitor: ISyntaxVisitor<T>): T {
-			return visitor.visitSimpleValue(this);
+			return visitor.visitEmptyDictionaryValue(this);
 		}
 	}
 }
 
 export namespace grammar {
+	const rules = new Map<string, IParser<any>>();
+
+	/**
+	 * Builds the parser of a rule once, the same parser is returned for the same key afterwards.
+	 * Rules are traced, see `trace`.
+	 * @param key The name of the rule and its arguments.
+	 * @param factory
+	 * @param backtracking Whether the rule is an alternative of `choose_backtracking`, tried again at the same token, it is memoized then, see `packrat`.
+	 * Other rules are not: they rarely run twice at the same token, and their values are changed after parsing,
+	 * e.g. by `node` or by setting `attributes`, so the value of a discarded parse must not end up in the kept one.
+	 * @return
+	 */
+	function rule<T>(key: string, factory: () => IParser<T>, backtracking = false): IParser<T> {
+		let parser = rules.get(key);
+
+		if (!parser) {
+			parser = traced(key, backtracking ? memoize(factory()) : factory());
+			rules.set(key, parser);
+		}
+
+		return parser;
+	}
+
 	function other(value: string): IParser<TextSpan> {
 		return token(TokenKind.other, value);
 	}
@@ -607,6 +988,81 @@ export namespace grammar {
 		return token(TokenKind.identifier);
 	}
 
+	const TOP_LEVEL_KEYWORDS = ["callback", "dictionary", "enum", "interface", "namespace", "partial", "typedef"];
+
+	/**
+	 * Whether a definition goes on after the token, e.g. `dictionary` after `partial` starts no definition of its own.
+	 * @param token
+	 * @return
+	 */
+	function continues(token: Token): boolean {
+		return token.kind === TokenKind.keyword && (token.span.text === "partial" || token.span.text === "callback");
+	}
+
+	/**
+	 * Counts the tokens up to and including the next `;` outside of braces.
+	 * Stops early at the end of file, at the start of the next definition and, within an interface, at its closing brace.
+	 * @param tokens
+	 * @param nested
+	 * @return
+	 */
+	function synchronize(tokens: Cursor, nested: boolean): number {
+		let depth = 0;
+
+		for (let i = 0; i < tokens.length; i++) {
+			let token = tokens.peek(i);
+
+			if (token.kind === TokenKind.eof) {
+				return i;
+			} else if (i > 0 && token.kind === TokenKind.keyword && TOP_LEVEL_KEYWORDS.indexOf(token.span.text) >= 0 && !continues(tokens.peek(i - 1))) {
+				return i;
+			} else if (i > 0 && !nested && depth === 0 && token.span.text === "[" && tokens.peek(i - 1).span.text === "}") {
+				// Extended attributes of the next definition, after one missing its `;`:
+				return i;
+			} else if (token.kind === TokenKind.other && token.span.text === "{") {
+				depth += 1;
+			} else if (token.kind === TokenKind.other && token.span.text === "}") {
+				if (depth === 0 && nested) {
+					return i;
+				}
+
+				depth = Math.max(0, depth - 1);
+			} else if (token.kind === TokenKind.other && token.span.text === ";" && depth === 0) {
+				return i + 1;
+			}
+		}
+
+		return tokens.length;
+	}
+
+	/**
+	 * @param parser
+	 * @param nested Whether the parser is for a member of an interface.
+	 * @param fallback Creates the error node for the errors of a failure.
+	 * @return
+	 */
+	function recovering<T extends model.Node>(parser: IParser<T>, nested: boolean, fallback: (errors: ParserError[]) => T): IParser<T> {
+		return recover(parser, (tokens) => synchronize(tokens, nested), (skipped, errors) => {
+			let error = fallback(furthest(errors));
+			error.tokens = skipped;
+			return error;
+		});
+	}
+
+	function syntax_errors(nodes: model.Node[]): ParserError[] {
+		return nodes.reduce((errors, node) => {
+			if (node instanceof model.ErrorNode) {
+				return errors.concat(node.errors);
+			} else if (node instanceof model.ErrorMember || node instanceof model.ErrorDictionaryMember) {
+				return errors.concat(node.errors);
+			} else if (node instanceof model.InterfaceDefinition || node instanceof model.InterfaceMixinDefinition || node instanceof model.NamespaceDefinition || node instanceof model.DictionaryDefinition) {
+				return errors.concat(syntax_errors(node.members));
+			} else {
+				return errors;
+			}
+		}, new Array<ParserError>());
+	}
+
 	function id<T>(v: T): T {
 		return v;
 	}
@@ -622,181 +1078,322 @@ export namespace grammar {
 		return map(parser, (span) => new type(span));
 	}
 
-	/**
-	 * @return
-	 */
-	export function Definitions(): IParser<model.Definition[]> {
-		return optional(create<model.Definition[]>(function* () {
-			let attributes = yield ExtendedAttributeList();
-			let definition = yield Definition();
-			let rest = yield Definitions();
+	function node<T extends model.Node>(parser: IParser<T>): IParser<T> {
+		return (tokens) => {
+			let result = parser(tokens);
 
-			definition.attributes = attributes;
-			return [definition].concat(rest);
-		}), []);
+			if (result.success && result.value) {
+				result.value.tokens = tokens.until(result.rest);
+			}
+
+			return result;
+		};
 	}
 
-	export function Definition(): IParser<model.Definition> {
-		return choose(CallbackOrInterface(), Partial(), Dictionary(), Enum(), Typedef(), ImplementsStatement());
+	function nullable(parser: IParser<model.Type>): IParser<model.Type> {
+		return node(apply(node(parser), Null()));
 	}
 
-	export function CallbackOrInterface(): IParser<model.Definition> {
-		return choose(create<model.Definition>(function* () {
-			yield keyword("callback");
-			let def = yield CallbackRestOrInterface();
+	/**
+	 * In recovery mode syntax errors are kept as error nodes and parsing goes on after them, the result holds the errors of all error nodes.
+	 * @param recover
+	 * @return
+	 */
+	export function Definitions(recover = false): IParser<model.Definition[]> {
+		return rule(`Definitions(${recover})`, () => {
+			if (recover) {
+				const definitions = many(recovering(DefinitionWithExtendedAttributes(true), false, (errors) => new model.ErrorNode(errors)));
 
-			if (def instanceof model.InterfaceDefinition) {
+				return (tokens) => {
+					let result = definitions(tokens);
 
+					if (result.success) {
+						result.errors = syntax_errors(result.value);
+					}
+
+					return result;
+				};
 			}
 
-			return def;
-		}), Interface());
+			return many(DefinitionWithExtendedAttributes());
+		});
 	}
 
-	export function CallbackRestOrInterface(): IParser<model.Definition> {
-		return choose(CallbackRest(), Interface());
+	export function DefinitionWithExtendedAttributes(recover = false): IParser<model.Definition> {
+		return rule(`DefinitionWithExtendedAttributes(${recover})`, () => node(create<model.Definition>(function* () {
+			let attributes = yield ExtendedAttributeList();
+			let definition = yield Definition(recover);
+
+			definition.attributes = attributes;
+			return definition;
+		})));
+	}
+
+	export function Definition(recover = false): IParser<model.Definition> {
+		return rule(`Definition(${recover})`, () => choose(CallbackOrInterfaceOrMixin(recover), Namespace(recover), Partial(recover), Dictionary(recover), Enum(), Typedef(), ImplementsOrIncludesStatement()));
 	}
 
-	export function Interface(): IParser<model.InterfaceDefinition> {
-		return create<model.InterfaceDefinition>(function* () {
+	export function CallbackOrInterfaceOrMixin(recover = false): IParser<model.Definition> {
+		return rule(`CallbackOrInterfaceOrMixin(${recover})`, () => choose(create<model.Definition>(function* () {
+			yield keyword("callback");
+			return yield CallbackRestOrInterface(recover);
+		}), InterfaceOrMixin(recover)));
+	}
+
+	export function CallbackRestOrInterface(recover = false): IParser<model.Definition> {
+		return rule(`CallbackRestOrInterface(${recover})`, () => choose(CallbackRest(), Interface(recover, true)));
+	}
+
+	export function Interface(recover = false, callback = false): IParser<model.InterfaceDefinition> {
+		return rule(`Interface(${recover}, ${callback})`, () => create<model.InterfaceDefinition>(function* () {
+			yield keyword("interface");
+			return yield InterfaceRest(recover, callback);
+		}));
+	}
+
+	export function InterfaceOrMixin(recover = false): IParser<model.Definition> {
+		return rule(`InterfaceOrMixin(${recover})`, () => create<model.Definition>(function* () {
 			yield keyword("interface");
+			return yield choose(MixinRest(recover), InterfaceRest(recover));
+		}));
+	}
+
+	export function InterfaceRest(recover = false, callback = false): IParser<model.InterfaceDefinition> {
+		return rule(`InterfaceRest(${recover}, ${callback})`, () => create<model.InterfaceDefinition>(function* () {
 			let id = yield identifier();
 			let inheritance = yield Inheritance();
 			yield other("{");
-			let members = yield InterfaceMembers();
+			let members = yield InterfaceMembers(recover);
 			yield other("}");
 			yield other(";");
 
-			return new model.InterfaceDefinition(id, inheritance, members);
-		});
+			return new model.InterfaceDefinition(id, inheritance, members, false, callback);
+		}));
 	}
 
-	// TODO: Error somehow not propagated.
-	// TODO: Mark definition as partial.
-	export function Partial(): IParser<model.Definition> {
-		return create<model.Definition>(function* () {
+	export function Partial(recover = false): IParser<model.Definition> {
+		return rule(`Partial(${recover})`, () => create<model.Definition>(function* () {
 			yield keyword("partial");
-			let def = yield PartialDefinition();
-
-			def.partial = true;
-			return def;
-		});
+			return yield PartialDefinition(recover);
+		}));
 	}
 
-	export function PartialDefinition(): IParser<model.Definition> {
-		return choose(PartialInterface(), PartialDictionary());
+	export function PartialDefinition(recover = false): IParser<model.Definition> {
+		return rule(`PartialDefinition(${recover})`, () => choose(PartialInterface(recover), PartialDictionary(recover), Namespace(recover, true)));
 	}
 
-	export function PartialInterface(): IParser<model.Definition> {
-		return create<model.InterfaceDefinition>(function* () {
+	export function PartialInterface(recover = false): IParser<model.Definition> {
+		return rule(`PartialInterface(${recover})`, () => create<model.Definition>(function* () {
 			yield keyword("interface");
+			return yield choose(MixinRest(recover, true), PartialInterfaceRest(recover));
+		}));
+	}
+
+	export function PartialInterfaceRest(recover = false): IParser<model.InterfaceDefinition> {
+		return rule(`PartialInterfaceRest(${recover})`, () => create<model.InterfaceDefinition>(function* () {
 			let id = yield identifier();
 			yield other("{");
-			let members = yield InterfaceMembers();
+			let members = yield InterfaceMembers(recover);
 			yield other("}");
 			yield other(";");
 
-			return new model.InterfaceDefinition(id, null, members);
+			return new model.InterfaceDefinition(id, null, members, true);
+		}));
+	}
+
+	export function InterfaceMembers(recover = false): IParser<model.InterfaceMember[]> {
+		return rule(`InterfaceMembers(${recover})`, () => {
+			const member = node(create<model.InterfaceMember>(function* () {
+				let attributes = yield ExtendedAttributeList();
+				let member = yield InterfaceMember();
+
+				member.attributes = attributes;
+				return member;
+			}));
+
+			return many(recover ? recovering(member, true, (errors) => new model.ErrorMember(errors)) : member);
 		});
 	}
 
-	export function InterfaceMembers(): IParser<model.InterfaceMember[]> {
-		return optional(create<model.InterfaceMember[]>(function* () {
-			let attributes = yield ExtendedAttributeList();
-			let member = yield InterfaceMember();
-			let rest = yield InterfaceMembers();
+	export function MixinRest(recover = false, partial = false): IParser<model.InterfaceMixinDefinition> {
+		return rule(`MixinRest(${recover}, ${partial})`, () => create<model.InterfaceMixinDefinition>(function* () {
+			yield keyword("mixin");
+			let id = yield identifier();
+			yield other("{");
+			let members = yield MixinMembers(recover);
+			yield other("}");
+			yield other(";");
 
-			member.attributes = attributes;
-			return [member].concat(rest);
-		}), []);
+			return new model.InterfaceMixinDefinition(id, members, partial);
+		}));
+	}
+
+	export function MixinMembers(recover = false): IParser<model.InterfaceMember[]> {
+		return rule(`MixinMembers(${recover})`, () => {
+			const member = node(create<model.InterfaceMember>(function* () {
+				let attributes = yield ExtendedAttributeList();
+				let member = yield MixinMember();
+
+				member.attributes = attributes;
+				return member;
+			}));
+
+			return many(recover ? recovering(member, true, (errors) => new model.ErrorMember(errors)) : member);
+		});
+	}
+
+	export function MixinMember(): IParser<model.InterfaceMember> {
+		return rule("MixinMember", () => choose(Const(), RegularOperation(), Stringifier(), create<model.InterfaceMember>(function* () {
+			let readonly = yield ReadOnly();
+			return yield AttributeRest(false, readonly);
+		})));
 	}
 
 	export function InterfaceMember(): IParser<model.InterfaceMember> {
-		return choose(Const(), Operation(), Serializer(), Stringifier(), StaticMember(), Iterable(), ReadonlyMember(), ReadWriteAttribute(), ReadWriteMaplike(), ReadWriteSetlike());
+		return rule("InterfaceMember", () => choose(Const(), Operation(), Constructor(), Serializer(), Stringifier(), StaticMember(), Iterable(), AsyncIterable(), ReadonlyMember(), ReadWriteAttribute(), ReadWriteMaplike(), ReadWriteSetlike()));
+	}
+
+	export function Constructor(): IParser<model.InterfaceMember> {
+		return rule("Constructor", () => create<model.InterfaceMember>(function* () {
+			yield keyword("constructor");
+			yield other("(");
+			let args = yield ArgumentList();
+			yield other(")");
+			yield other(";");
+
+			return new model.ConstructorMember(args);
+		}));
+	}
+
+	export function Namespace(recover = false, partial = false): IParser<model.NamespaceDefinition> {
+		return rule(`Namespace(${recover}, ${partial})`, () => create<model.NamespaceDefinition>(function* () {
+			yield keyword("namespace");
+			let id = yield identifier();
+			yield other("{");
+			let members = yield NamespaceMembers(recover);
+			yield other("}");
+			yield other(";");
+
+			return new model.NamespaceDefinition(id, members, partial);
+		}));
+	}
+
+	export function NamespaceMembers(recover = false): IParser<model.InterfaceMember[]> {
+		return rule(`NamespaceMembers(${recover})`, () => {
+			const member = node(create<model.InterfaceMember>(function* () {
+				let attributes = yield ExtendedAttributeList();
+				let member = yield NamespaceMember();
+
+				member.attributes = attributes;
+				return member;
+			}));
+
+			return many(recover ? recovering(member, true, (errors) => new model.ErrorMember(errors)) : member);
+		});
+	}
+
+	export function NamespaceMember(): IParser<model.InterfaceMember> {
+		return rule("NamespaceMember", () => choose(Const(), RegularOperation(), create<model.InterfaceMember>(function* () {
+			yield keyword("readonly");
+			return yield AttributeRest(false, true);
+		})));
 	}
 
-	export function Dictionary(): IParser<model.DictionaryDefinition> {
-		return create<model.DictionaryDefinition>(function* () {
+	export function Dictionary(recover = false): IParser<model.DictionaryDefinition> {
+		return rule(`Dictionary(${recover})`, () => create<model.DictionaryDefinition>(function* () {
 			yield keyword("dictionary");
 			let id = yield identifier();
 			let inheritance = yield Inheritance();
 			yield other("{");
-			let members = yield DictionaryMembers();
+			let members = yield DictionaryMembers(recover);
 			yield other("}");
 			yield other(";");
 
 			return new model.DictionaryDefinition(id, inheritance, members);
-		});
+		}));
 	}
 
-	export function DictionaryMembers(): IParser<model.DictionaryMember[]> {
-		return optional(create<model.DictionaryMember[]>(function* () {
-			let attributes = yield ExtendedAttributeList();
-			let member = yield DictionaryMember();
-			let members = yield DictionaryMembers();
+	export function DictionaryMembers(recover = false): IParser<model.DictionaryMember[]> {
+		return rule(`DictionaryMembers(${recover})`, () => {
+			const member = node(create<model.DictionaryMember>(function* () {
+				let attributes = yield ExtendedAttributeList();
+				let member = yield DictionaryMember();
 
-			member.attributes = attributes;
-			return [member].concat(members);
-		}), []);
+				member.attributes = attributes;
+				return member;
+			}));
+
+			return many(recover ? recovering(member, true, (errors) => new model.ErrorDictionaryMember(errors)) : member);
+		});
 	}
 
 	export function DictionaryMember(): IParser<model.DictionaryMember> {
-		return create<model.DictionaryMember>(function* () {
+		return rule("DictionaryMember", () => create<model.DictionaryMember>(function* () {
 			let required = yield Required();
 			let type = yield Type();
-			let id = yield identifier();
+			let id = yield DictionaryMemberName();
 			let def = yield Default();
 			yield other(";");
 
 			return new model.DictionaryMember(required, type, id, def);
-		});
+		}));
+	}
+
+	export function DictionaryMemberName(): IParser<TextSpan> {
+		// Keywords are accepted as names like for arguments, most of them were identifiers in earlier versions of WebIDL:
+		return rule("DictionaryMemberName", () => name(choose(ArgumentNameKeyword(), identifier()), "identifier"));
 	}
 
 	export function Required(): IParser<boolean> {
-		return exists(keyword("required"));
+		return rule("Required", () => exists(keyword("required")));
 	}
 
-	export function PartialDictionary(): IParser<any> {
-		return create<model.DictionaryDefinition>(function* () {
+	export function PartialDictionary(recover = false): IParser<model.DictionaryDefinition> {
+		return rule(`PartialDictionary(${recover})`, () => create<model.DictionaryDefinition>(function* () {
 			yield keyword("dictionary");
 			let id = yield identifier();
 			yield other("{");
-			let members = yield DictionaryMembers();
+			let members = yield DictionaryMembers(recover);
 			yield other("}");
 			yield other(";");
 
-			return new model.DictionaryDefinition(id, null, members);
-		});
+			return new model.DictionaryDefinition(id, null, members, true);
+		}));
 	}
 
 	export function Default(): IParser<model.Value> {
-		return optional(create<model.Value>(function* () {
+		return rule("Default", () => optional(create<model.Value>(function* () {
 			yield other("=");
-			return yield DefaultValue();
-		}));
+			return yield node(DefaultValue());
+		})));
 	}
 
-	export function DefaultValue(): IParser<any> {
-		return choose(
+	export function DefaultValue(): IParser<model.Value> {
+		return rule("DefaultValue", () => choose(
 			ConstValue(),
-			instance(token(TokenKind.string), model.SimpleValue),
-			create<model.SimpleValue>(function* () {
+			instance(token(TokenKind.string), model.StringValue),
+			create<model.Value>(function* () {
 				let begin = yield other("[");
-				let end = yield other("]");
-				return new model.SimpleValue({ text: "[]", position: begin.position });
+				yield other("]");
+				return new model.EmptySequenceValue({ text: "[]", position: begin.position });
+			}),
+			create<model.Value>(function* () {
+				let begin = yield other("{");
+				yield other("}");
+				return new model.EmptyDictionaryValue({ text: "{}", position: begin.position });
 			})
-		);
+		));
 	}
 
 	export function Inheritance(): IParser<any> {
-		return optional(create<TextSpan>(function* () {
+		return rule("Inheritance", () => optional(create<TextSpan>(function* () {
 			yield other(":");
 			return yield identifier();
-		}), null);
+		}), null));
 	}
 
 	export function Enum(): IParser<model.EnumDefinition> {
-		return create<model.EnumDefinition>(function* () {
+		return rule("Enum", () => create<model.EnumDefinition>(function* () {
 			yield keyword("enum");
 			let id = yield identifier();
 			yield other("{");
@@ -805,36 +1402,36 @@ export namespace grammar {
 			yield other(";");
 
 			return new model.EnumDefinition(id, values);
-		});
+		}));
 	}
 
 	export function EnumValueList(): IParser<TextSpan[]> {
-		return create<TextSpan[]>(function* () {
+		return rule("EnumValueList", () => create<TextSpan[]>(function* () {
 			let first = yield token(TokenKind.string);
 			let rest = yield EnumValueListComma();
 
 			return [first].concat(rest);
-		});
+		}));
 	}
 
 	export function EnumValueListComma(): IParser<TextSpan[]> {
-		return optional(create<TextSpan[]>(function* () {
+		return rule("EnumValueListComma", () => optional(create<TextSpan[]>(function* () {
 			yield other(",");
 			return yield EnumValueListString();
-		}), []);
+		}), []));
 	}
 
 	export function EnumValueListString(): IParser<TextSpan[]> {
-		return optional(create<TextSpan[]>(function* () {
+		return rule("EnumValueListString", () => optional(create<TextSpan[]>(function* () {
 			let first = yield token(TokenKind.string);
 			let rest = yield EnumValueListComma();
 
 			return [first].concat(rest);
-		}), []);
+		}), []));
 	}
 
 	export function CallbackRest(): IParser<model.Definition> {
-		return create<model.Definition>(function* () {
+		return rule("CallbackRest", () => create<model.Definition>(function* () {
 			let id = yield identifier();
 			yield other("=");
 			let rtype = yield ReturnType();
@@ -844,200 +1441,278 @@ export namespace grammar {
 			yield other(";");
 
 			return new model.CallbackDefinition(id, rtype, args);
-		});
+		}));
 	}
 
 	export function Typedef(): IParser<model.Typedef> {
-		return create<model.Typedef>(function* () {
+		return rule("Typedef", () => create<model.Typedef>(function* () {
 			yield keyword("typedef");
 			let type = yield Type();
 			let id = yield identifier();
 			yield other(";");
 
 			return new model.Typedef(id, type);
-		});
+		}));
+	}
+
+	export function ImplementsOrIncludesStatement(): IParser<model.Definition> {
+		// Both start with an identifier:
+		return rule("ImplementsOrIncludesStatement", () => choose_backtracking<model.Definition>(ImplementsStatement(), IncludesStatement()));
+	}
+
+	export function IncludesStatement(): IParser<model.IncludesStatement> {
+		return rule("IncludesStatement", () => create<model.IncludesStatement>(function* () {
+			let id = yield identifier();
+			yield keyword("includes");
+			let name = yield identifier();
+			yield other(";");
+
+			return new model.IncludesStatement(id, name);
+		}), true);
 	}
 
 	export function ImplementsStatement(): IParser<model.ImplementsStatement> {
-		return create<model.ImplementsStatement>(function* () {
+		return rule("ImplementsStatement", () => create<model.ImplementsStatement>(function* () {
 			let id = yield identifier();
 			yield keyword("implements");
 			let name = yield identifier();
 			yield other(";");
 
 			return new model.ImplementsStatement(id, name);
-		});
+		}), true);
 	}
 
 	export function Const(): IParser<model.ConstMember> {
-		return create<model.ConstMember>(function* () {
+		return rule("Const", () => create<model.ConstMember>(function* () {
 			yield keyword("const");
 			let type = yield ConstType();
 			let id = yield identifier();
 			yield other("=");
-			let value = yield ConstValue();
+			let value = yield node(ConstValue());
 			yield other(";");
 
 			return new model.ConstMember(id, type, value);
-		});
+		}));
 	}
 
-	export function ConstValue(): IParser<model.SimpleValue> {
-		return choose(
+	export function ConstValue(): IParser<model.Value> {
+		return rule("ConstValue", () => choose(
 			BooleanLiteral(),
 			FloatLiteral(),
-			instance(token(TokenKind.integer), model.SimpleValue),
-			instance(keyword("null"), model.SimpleValue)
-		);
+			instance(token(TokenKind.integer), model.NumberValue),
+			instance(keyword("null"), model.NullValue)
+		));
 	}
 
-	export function BooleanLiteral(): IParser<model.SimpleValue> {
-		return instance(choose(keyword("true"), keyword("false")), model.SimpleValue);
+	export function BooleanLiteral(): IParser<model.Value> {
+		return rule("BooleanLiteral", () => instance(choose(keyword("true"), keyword("false")), model.BooleanValue));
 	}
 
-	export function FloatLiteral(): IParser<model.SimpleValue> {
-		return instance(choose(token(TokenKind.float), keyword("-Infinity"), keyword("Infinity"), keyword("NaN")), model.SimpleValue);
+	export function FloatLiteral(): IParser<model.Value> {
+		return rule("FloatLiteral", () => instance(choose(token(TokenKind.float), keyword("-Infinity"), keyword("Infinity"), keyword("NaN")), model.NumberValue));
 	}
 
-	export function Serializer(): IParser<any> {
-		return fail<any>();
+	export function Serializer(): IParser<model.InterfaceMember> {
+		return rule("Serializer", () => create<model.InterfaceMember>(function* () {
+			yield keyword("serializer");
+			return yield SerializerRest();
+		}));
 	}
 
-	export function SerializerRest(): IParser<any> {
-		return fail<any>();
+	export function SerializerRest(): IParser<model.InterfaceMember> {
+		return rule("SerializerRest", () => {
+			const operation = node(create<model.OperationMember>(function* () {
+				let rtype = yield ReturnType();
+				let rest = yield OperationRest();
+
+				rest.specials = [];
+				rest.rtype = rtype;
+				return rest;
+			}));
+
+			return choose(map(operation, (op) => new model.SerializerMember(op, null)), create<model.InterfaceMember>(function* () {
+				yield other("=");
+				let pattern = yield SerializationPattern();
+				yield other(";");
+
+				return new model.SerializerMember(null, pattern);
+			}), create<model.InterfaceMember>(function* () {
+				yield other(";");
+				return new model.SerializerMember(null, null);
+			}));
+		});
 	}
 
-	function SerializationPattern(): IParser<any> {
-		return fail<any>();
+	function SerializationPattern(): IParser<model.SerializationPattern> {
+		return rule("SerializationPattern", () => choose(create<model.SerializationPattern>(function* () {
+			yield other("{");
+			let pattern = yield optional(SerializationPatternMap());
+			yield other("}");
+
+			return pattern || new model.SerializationPattern(model.SerializationPatternKind.map, false, false, []);
+		}), create<model.SerializationPattern>(function* () {
+			yield other("[");
+			let pattern = yield optional(SerializationPatternList());
+			yield other("]");
+
+			return pattern || new model.SerializationPattern(model.SerializationPatternKind.list, false, false, []);
+		}), map(identifier(), (id) => {
+			return new model.SerializationPattern(model.SerializationPatternKind.identifier, false, false, [id]);
+		})));
 	}
 
-	function SerializationPatternMap(): IParser<any> {
-		return fail<any>();
+	function SerializationPatternMap(): IParser<model.SerializationPattern> {
+		return rule("SerializationPatternMap", () => choose(map(keyword("getter"), (_) => {
+			return new model.SerializationPattern(model.SerializationPatternKind.map, true, false, []);
+		}), create<model.SerializationPattern>(function* () {
+			yield keyword("inherit");
+			let names = yield SerializationPatternNames();
+
+			return new model.SerializationPattern(model.SerializationPatternKind.map, false, true, names);
+		}), create<model.SerializationPattern>(function* () {
+			let head = yield choose(keyword("attribute"), identifier());
+			let tail = yield SerializationPatternNames();
+
+			return new model.SerializationPattern(model.SerializationPatternKind.map, false, false, [head].concat(tail));
+		})));
 	}
 
-	function SerializationPatternList(): IParser<any> {
-		return fail<any>();
+	function SerializationPatternNames(): IParser<TextSpan[]> {
+		return rule("SerializationPatternNames", () => optional(create<TextSpan[]>(function* () {
+			yield other(",");
+			let head = yield choose(keyword("attribute"), identifier());
+			let tail = yield SerializationPatternNames();
+
+			return [head].concat(tail);
+		}), []));
+	}
+
+	function SerializationPatternList(): IParser<model.SerializationPattern> {
+		return rule("SerializationPatternList", () => choose(map(keyword("getter"), (_) => {
+			return new model.SerializationPattern(model.SerializationPatternKind.list, true, false, []);
+		}), create<model.SerializationPattern>(function* () {
+			let head = yield identifier();
+			let tail = yield Identifiers();
+
+			return new model.SerializationPattern(model.SerializationPatternKind.list, false, false, [head].concat(tail));
+		})));
 	}
 
 	export function Stringifier(): IParser<model.InterfaceMember> {
-		return create<model.InterfaceMember>(function* () {
+		return rule("Stringifier", () => create<model.InterfaceMember>(function* () {
 			yield keyword("stringifier");
-			let mem = yield StringifierRest();
+			let mem = yield node(StringifierRest());
 
 			return new model.StringifierMember(mem);
-		});
+		}));
 	}
 
 	export function StringifierRest(): IParser<any> {
-		return choose(create<model.InterfaceMember>(function* () {
-			let readonly = yield ReadOnly();
-			let rest = yield AttributeRest();
-
-			rest.readonly = readonly;
-			return rest;
-		}), create<model.InterfaceMember>(function* () {
-			let rtype = yield ReturnType();
-			let rest = yield OperationRest();
-
-			rest.rtype = rtype;
-			return rest;
-		}), create<model.InterfaceMember>(function* () {
-			yield other(";");
-			return null;
-		}))
+		return rule("StringifierRest", () => {
+			return choose(create<model.InterfaceMember>(function* () {
+				let readonly = yield ReadOnly();
+				return yield AttributeRest(false, readonly);
+			}), create<model.InterfaceMember>(function* () {
+				let rtype = yield ReturnType();
+				let rest = yield OperationRest();
+
+				rest.rtype = rtype;
+				return rest;
+			}), create<model.InterfaceMember>(function* () {
+				yield other(";");
+				return null;
+			}))
+		});
 	}
 
 	export function StaticMember(): IParser<model.InterfaceMember> {
-		return create<model.InterfaceMember>(function* () {
+		return rule("StaticMember", () => create<model.InterfaceMember>(function* () {
 			yield keyword("static");
-			let member = yield StaticMemberRest();
+			let member = yield node(StaticMemberRest());
 
 			return new model.StaticMember(member);
-		});
+		}));
 	}
 
 	export function StaticMemberRest(): IParser<model.InterfaceMember> {
-		return choose(create<model.InterfaceMember>(function* () {
+		return rule("StaticMemberRest", () => choose(create<model.InterfaceMember>(function* () {
 			let readonly = yield ReadOnly();
-			let rest = yield AttributeRest();
-
-			rest.readonly = readonly;
-			return rest;
+			return yield AttributeRest(false, readonly);
 		}), create<model.InterfaceMember>(function* () {
 			let rtype = yield ReturnType();
 			let rest = yield OperationRest();
 
 			rest.rtype = rtype;
 			return rest;
-		}));
+		})));
 	}
 
 	export function ReadonlyMember(): IParser<model.InterfaceMember> {
-		return create<model.InterfaceMember>(function* () {
+		return rule("ReadonlyMember", () => create<model.InterfaceMember>(function* () {
 			yield keyword("readonly");
-			let rest = yield ReadonlyMemberRest();
-
-			rest.readonly = true;
-			return rest;
-		});
+			return yield ReadonlyMemberRest();
+		}));
 	}
 
 	export function ReadonlyMemberRest(): IParser<model.InterfaceMember> {
-		return choose(AttributeRest(), ReadWriteMaplike(), ReadWriteSetlike());
+		return rule("ReadonlyMemberRest", () => choose(AttributeRest(false, true), MaplikeRest(true), SetlikeRest(true)));
 	}
 
 	export function ReadWriteAttribute(): IParser<model.AttributeMember> {
-		return choose(create<model.AttributeMember>(function* () {
+		return rule("ReadWriteAttribute", () => choose(create<model.AttributeMember>(function* () {
 			yield keyword("inherit");
 			let readonly = yield ReadOnly();
-			let rest = yield AttributeRest();
-
-			rest.inherit = true;
-			rest.readonly = readonly;
-			return rest;
-		}), AttributeRest());
+			return yield AttributeRest(true, readonly);
+		}), AttributeRest()));
 	}
 
-	export function AttributeRest(): IParser<model.AttributeMember> {
-		return create<model.AttributeMember>(function* () {
-			yield keyword("attribute");
-			let type = yield Type();
-			let name = yield AttributeName();
-			yield other(";");
+	export function AttributeRest(inherit = false, readonly = false): IParser<model.AttributeMember> {
+		return rule(`AttributeRest(${inherit}, ${readonly})`, () => {
+			return create<model.AttributeMember>(function* () {
+				yield keyword("attribute");
+				let type = yield Type();
+				let name = yield AttributeName();
+				yield other(";");
 
-			return new model.AttributeMember(name, false, false, type);
-		})
+				return new model.AttributeMember(name, inherit, readonly, type);
+			})
+		});
 	}
 
 	export function AttributeName(): IParser<TextSpan> {
-		return choose(AttributeNameKeyword(), identifier());
+		// Keywords are accepted as names like for arguments, most of them were identifiers in earlier versions of WebIDL:
+		return rule("AttributeName", () => name(choose(AttributeNameKeyword(), ArgumentNameKeyword(), identifier()), "identifier"));
 	}
 
 	export function AttributeNameKeyword(): IParser<TextSpan> {
-		return keyword("required");
+		return rule("AttributeNameKeyword", () => choose(keyword("async"), keyword("required")));
 	}
 
 	export function Inherit(): IParser<boolean> {
-		return exists(keyword("inherit"));
+		return rule("Inherit", () => exists(keyword("inherit")));
 	}
 
 	export function ReadOnly(): IParser<boolean> {
-		return exists(keyword("readonly"));
+		return rule("ReadOnly", () => exists(keyword("readonly")));
 	}
 
 	export function Operation(): IParser<model.InterfaceMember> {
-		return choose(create<model.InterfaceMember>(function* () {
+		return rule("Operation", () => choose(RegularOperation(), SpecialOperation()));
+	}
+
+	export function RegularOperation(): IParser<model.InterfaceMember> {
+		return rule("RegularOperation", () => create<model.InterfaceMember>(function* () {
 			let rtype = yield ReturnType();
 			let rest = yield OperationRest();
 
 			rest.specials = [];
 			rest.rtype = rtype;
 			return rest;
-		}), SpecialOperation());
+		}));
 	}
 
 	export function SpecialOperation(): IParser<model.InterfaceMember> {
-		return create<model.InterfaceMember>(function* () {
+		return rule("SpecialOperation", () => create<model.InterfaceMember>(function* () {
 			let special = yield Special();
 			let specials = yield Specials();
 			let rtype = yield ReturnType();
@@ -1046,64 +1721,78 @@ export namespace grammar {
 			rest.specials = [special].concat(specials);
 			rest.rtype = rtype;
 			return rest;
-		});
+		}));
 	}
 
 	export function Specials(): IParser<TextSpan[]> {
-		return many(Special());
+		return rule("Specials", () => many(Special()));
 	}
 
 	export function Special(): IParser<TextSpan> {
-		return choose(keyword("getter"), keyword("setter"), keyword("deleter"), keyword("legacycaller"));
+		return rule("Special", () => choose(keyword("getter"), keyword("setter"), keyword("deleter"), keyword("legacycaller")));
 	}
 
 	export function OperationRest(): IParser<model.OperationMember> {
-		return create<model.OperationMember>(function* () {
-			let id = yield OptionalIdentifier();
-			yield other("(");
-			let args = yield ArgumentList();
-			yield other(")");
-			yield other(";");
-
-			return new model.OperationMember(id, [], null, args);
-		})
+		return rule("OperationRest", () => {
+			return create<model.OperationMember>(function* () {
+				let id = yield OptionalOperationName();
+				yield other("(");
+				let args = yield ArgumentList();
+				yield other(")");
+				yield other(";");
+
+				return new model.OperationMember(id, [], null, args);
+			})
+		});
 	}
 
 	export function OptionalIdentifier(): IParser<TextSpan> {
-		return optional(identifier(), null);
+		return rule("OptionalIdentifier", () => optional(identifier(), null));
+	}
+
+	export function OptionalOperationName(): IParser<TextSpan> {
+		return rule("OptionalOperationName", () => optional(OperationName(), null));
+	}
+
+	export function OperationName(): IParser<TextSpan> {
+		return rule("OperationName", () => choose(OperationNameKeyword(), identifier()));
+	}
+
+	export function OperationNameKeyword(): IParser<TextSpan> {
+		return rule("OperationNameKeyword", () => keyword("includes"));
 	}
 
 	export function ArgumentList(): IParser<model.Argument[]> {
-		return optional(create<model.Argument[]>(function* () {
+		return rule("ArgumentList", () => optional(create<model.Argument[]>(function* () {
 			let arg = yield Argument();
 			let args = yield Arguments();
 
 			return [arg].concat(args);
-		}), []);
+		}), []));
 	}
 
 	export function Arguments(): IParser<model.Argument[]> {
-		return optional(create<model.Argument[]>(function* () {
+		return rule("Arguments", () => optional(create<model.Argument[]>(function* () {
 			yield other(",");
 			let arg = yield Argument();
 			let args = yield Arguments();
 
 			return [arg].concat(args);
-		}), []);
+		}), []));
 	}
 
 	export function Argument(): IParser<model.Argument> {
-		return create<model.Argument>(function* () {
+		return rule("Argument", () => node(create<model.Argument>(function* () {
 			let attributes = yield ExtendedAttributeList();
 			let arg = yield OptionalOrRequiredArgument();
 
 			arg.attributes = attributes;
 			return arg;
-		});
+		})));
 	}
 
 	export function OptionalOrRequiredArgument(): IParser<model.Argument> {
-		return choose(create<model.Argument>(function* () {
+		return rule("OptionalOrRequiredArgument", () => choose(create<model.Argument>(function* () {
 			yield keyword("optional");
 			let type = yield Type();
 			let name = yield ArgumentName();
@@ -1116,20 +1805,20 @@ export namespace grammar {
 			let name = yield ArgumentName();
 
 			return new model.Argument(false, type, variadic, name, null);
-		}));
+		})));
 	}
 
 
 	function ArgumentName(): IParser<TextSpan> {
-		return choose(ArgumentNameKeyword(), identifier());
+		return rule("ArgumentName", () => choose(ArgumentNameKeyword(), identifier()));
 	}
 
 	function Ellipsis(): IParser<boolean> {
-		return exists(keyword("..."));
+		return rule("Ellipsis", () => exists(keyword("...")));
 	}
 
 	function Iterable(): IParser<model.InterfaceMember> {
-		return create<model.InterfaceMember>(function* () {
+		return rule("Iterable", () => create<model.InterfaceMember>(function* () {
 			yield keyword("iterable");
 			yield other("<");
 			let key = yield Type();
@@ -1142,26 +1831,55 @@ export namespace grammar {
 			} else {
 				return new model.IterableMember(null, key);
 			}
-		});
+		}));
+	}
+
+	function AsyncIterable(): IParser<model.InterfaceMember> {
+		return rule("AsyncIterable", () => create<model.InterfaceMember>(function* () {
+			yield keyword("async");
+			yield keyword("iterable");
+			yield other("<");
+			let key = yield Type();
+			let value = yield OptionalType();
+			yield other(">");
+			let args = yield OptionalArgumentList();
+			yield other(";");
+
+			if (value) {
+				return new model.IterableMember(key, value, true, args);
+			} else {
+				return new model.IterableMember(null, key, true, args);
+			}
+		}));
+	}
+
+	function OptionalArgumentList(): IParser<model.Argument[]> {
+		return rule("OptionalArgumentList", () => optional(create<model.Argument[]>(function* () {
+			yield other("(");
+			let args = yield ArgumentList();
+			yield other(")");
+
+			return args;
+		}), []));
 	}
 
 	function OptionalType(): IParser<model.Type> {
-		return optional(create<model.Type>(function* () {
+		return rule("OptionalType", () => optional(create<model.Type>(function* () {
 			yield other(",");
 			return yield Type();
-		}));
+		})));
 	}
 
 	function ReadWriteMaplike(): IParser<model.InterfaceMember> {
-		return MaplikeRest();
+		return rule("ReadWriteMaplike", () => MaplikeRest(false));
 	}
 
 	function ReadWriteSetlike(): IParser<model.InterfaceMember> {
-		return SetlikeRest();
+		return rule("ReadWriteSetlike", () => SetlikeRest(false));
 	}
 
-	function MaplikeRest(): IParser<model.InterfaceMember> {
-		return create<model.InterfaceMember>(function* () {
+	function MaplikeRest(readonly: boolean): IParser<model.InterfaceMember> {
+		return rule(`MaplikeRest(${readonly})`, () => create<model.InterfaceMember>(function* () {
 			yield keyword("maplike");
 			yield other("<");
 			let key = yield Type();
@@ -1170,88 +1888,173 @@ export namespace grammar {
 			yield other(">");
 			yield other(";");
 
-			return new model.MaplikeMember(false, key, value);
-		});
+			return new model.MaplikeMember(readonly, key, value);
+		}));
 	}
 
-	function SetlikeRest(): IParser<model.InterfaceMember> {
-		return create<model.InterfaceMember>(function* () {
+	function SetlikeRest(readonly: boolean): IParser<model.InterfaceMember> {
+		return rule(`SetlikeRest(${readonly})`, () => create<model.InterfaceMember>(function* () {
 			yield keyword("setlike");
 			yield other("<");
 			let value = yield Type();
 			yield other(">");
 			yield other(";");
 
-			return new model.SetlikeMember(false, value);
-		});
+			return new model.SetlikeMember(readonly, value);
+		}));
 	}
 
 	export function ExtendedAttributeList(): IParser<model.ExtendedAttribute[]> {
-		return optional(create<model.ExtendedAttribute[]>(function* () {
+		return rule("ExtendedAttributeList", () => optional(create<model.ExtendedAttribute[]>(function* () {
 			yield other("[");
 			let attribute = yield ExtendedAttribute();
 			let attributes = yield ExtendedAttributes();
 			yield other("]");
 
 			return [attribute].concat(attributes);
-		}), []);
+		}), []));
 	}
 
 	function ExtendedAttributes(): IParser<model.ExtendedAttribute[]> {
-		return optional(create<model.ExtendedAttribute[]>(function* () {
+		return rule("ExtendedAttributes", () => optional(create<model.ExtendedAttribute[]>(function* () {
 			yield other(",");
 			let attribute = yield ExtendedAttribute();
 			let attributes = yield ExtendedAttributes();
 
 			return [attribute].concat(attributes);
-		}), []);
+		}), []));
 	}
 
 	function ExtendedAttribute(): IParser<model.ExtendedAttribute> {
-		// Order is relevant:
-		return choose_backtracking(ExtendedAttributeNamedArgList(), ExtendedAttributeIdentList(), ExtendedAttributeIdent(), ExtendedAttributeArgList(), ExtendedAttributeNoArgs());
+		return rule("ExtendedAttribute", () => {
+			// Order is relevant:
+			const typed = choose_backtracking(
+				ExtendedAttributeNamedArgList(),
+				ExtendedAttributeIdentList(),
+				ExtendedAttributeIdent(),
+				ExtendedAttributeArgList(),
+				ExtendedAttributeWildcard(),
+				ExtendedAttributeLiteral(),
+				ExtendedAttributeNoArgs()
+			);
+
+			// Any balanced tokens are read, the typed forms are used only when they cover all of them:
+			return node<model.ExtendedAttribute>((tokens) => {
+				let result = ExtendedAttributeTokens()(tokens);
+
+				if (!result.success) {
+					return { success: false, consumed: result.consumed, value: undefined, rest: tokens, errors: result.errors };
+				}
+
+				let attribute = typed(tokens);
+
+				if (attribute.success && attribute.rest.length === result.rest.length) {
+					return attribute;
+				}
+
+				let value = new model.ExtendedAttributeRaw(result.value[0], result.value.slice(1));
+				return { success: true, consumed: true, value, rest: result.rest, errors: [] };
+			});
+		});
 	}
 
-	function ExtendedAttributeRest(): IParser<any> {
-		return fail<any>();
+	function ExtendedAttributeTokens(): IParser<TextSpan[]> {
+		return rule("ExtendedAttributeTokens", () => {
+			const brackets = [["(", ")"], ["[", "]"], ["{", "}"]].map(([open, close]) => create<TextSpan[]>(function* () {
+				let head = yield other(open);
+				let inner = yield ExtendedAttributeInner();
+				let tail = yield other(close);
+				let rest = yield ExtendedAttributeRest();
+
+				return [head, ...inner, tail, ...rest];
+			}));
+
+			return choose(...brackets, create<TextSpan[]>(function* () {
+				let head = yield Other();
+				let rest = yield ExtendedAttributeRest();
+
+				return [head].concat(rest);
+			}));
+		});
 	}
 
-	function ExtendedAttributeInner(): IParser<any> {
-		return fail<any>();
+	function ExtendedAttributeRest(): IParser<TextSpan[]> {
+		return rule("ExtendedAttributeRest", () => optional(ExtendedAttributeTokens(), []));
 	}
 
+	function ExtendedAttributeInner(): IParser<TextSpan[]> {
+		return rule("ExtendedAttributeInner", () => {
+			const brackets = [["(", ")"], ["[", "]"], ["{", "}"]].map(([open, close]) => create<TextSpan[]>(function* () {
+				let head = yield other(open);
+				let inner = yield ExtendedAttributeInner();
+				let tail = yield other(close);
+				let rest = yield ExtendedAttributeInner();
+
+				return [head, ...inner, tail, ...rest];
+			}));
+
+			return optional(choose(...brackets, create<TextSpan[]>(function* () {
+				let head = yield OtherOrComma();
+				let rest = yield ExtendedAttributeInner();
+
+				return [head].concat(rest);
+			})), []);
+		});
+	}
+
+	/**
+	 * Any token except brackets and commas.
+	 */
 	function Other(): IParser<TextSpan> {
-		return fail<any>();
+		return rule("Other", () => {
+			const punctuation = [
+				"!", "#", "$", "%", "&", "'", "*", "+",
+				"-", ".", "/", ":", ";", "<", "=", ">",
+				"?", "@", "\\", "^", "`", "|", "~"
+			];
+
+			return choose(
+				token(TokenKind.integer),
+				token(TokenKind.float),
+				identifier(),
+				token(TokenKind.string),
+				token(TokenKind.keyword),
+				...punctuation.map(other)
+			);
+		});
 	}
 
 	function ArgumentNameKeyword(): IParser<TextSpan> {
-		const keywords = [
-			"attribute", "callback", "const", "deleter",
-			"dictioanry", "enum", "getter", "implements",
-			"inherit", "interface", "iterable", "legacycaller",
-			"maplike", "partial", "required", "serializer",
-			"setlike", "setter", "static", "stringifier",
-			"typedef", "unrestricted"
-		];
-
-		let parsers = keywords.map(keyword);
-		return choose<TextSpan>(...parsers);
+		return rule("ArgumentNameKeyword", () => {
+			const keywords = [
+				"async", "attribute", "callback", "const",
+				"constructor", "deleter", "dictionary", "enum",
+				"getter", "implements", "includes", "inherit",
+				"interface", "iterable", "legacycaller", "maplike",
+				"mixin", "namespace", "partial", "required",
+				"serializer", "setlike", "setter", "static",
+				"stringifier", "typedef", "unrestricted"
+			];
+
+			let parsers = keywords.map(keyword);
+			return choose<TextSpan>(...parsers);
+		});
 	}
 
-	function OtherOrComma(): IParser<any> {
-		return fail<any>();
+	function OtherOrComma(): IParser<TextSpan> {
+		return rule("OtherOrComma", () => choose(Other(), other(",")));
 	}
 
 	function Type(): IParser<model.Type> {
-		return name(choose(SingleType(), apply(UnionType(), Null())), "type");
+		return rule("Type", () => name(choose(SingleType(), nullable(UnionType())), "type"));
 	}
 
 	function SingleType(): IParser<model.Type> {
-		return choose(NonAnyType(), instance(keyword("any"), model.SimpleType));
+		return rule("SingleType", () => choose(NonAnyType(), node(instance(keyword("any"), model.SimpleType))));
 	}
 
 	function UnionType(): IParser<model.UnionType> {
-		return create<model.UnionType>(function* () {
+		return rule("UnionType", () => create<model.UnionType>(function* () {
 			yield other("(");
 			let fst = yield UnionMemberType();
 			yield keyword("or");
@@ -1260,207 +2063,235 @@ export namespace grammar {
 			yield other(")");
 
 			return new model.UnionType([fst, snd].concat(rest));
-		});
+		}));
 	}
 
 	function UnionMemberType(): IParser<model.Type> {
-		return choose(
+		return rule("UnionMemberType", () => choose(
 			NonAnyType(),
-			apply(UnionType(), Null())
-		);
+			nullable(UnionType())
+		));
 	}
 
 	function UnionMemberTypes(): IParser<model.Type[]> {
-		return optional(create<model.Type[]>(function* () {
+		return rule("UnionMemberTypes", () => optional(create<model.Type[]>(function* () {
 			yield keyword("or");
 			let type = yield UnionMemberType();
 			let rest = yield UnionMemberTypes();
 
 			return [type].concat(rest);
-		}), []);
+		}), []));
 	}
 
 	function NonAnyType(): IParser<model.Type> {
-		const sequence = create<model.SequenceType>(function* () {
-			yield keyword("sequence");
-			yield other("<");
-			let type = yield Type();
-			yield other(">");
-
-			return new model.SequenceType(type);
+		return rule("NonAnyType", () => {
+			const sequence = create<model.SequenceType>(function* () {
+				yield keyword("sequence");
+				yield other("<");
+				let type = yield Type();
+				yield other(">");
+
+				return new model.SequenceType(type);
+			});
+
+			const frozen = create<model.FrozenArrayType>(function* () {
+				yield keyword("FrozenArray");
+				yield other("<");
+				let type = yield Type();
+				yield other(">");
+
+				return new model.FrozenArrayType(type);
+			});
+
+			return choose(
+				nullable(PrimitiveType()),
+				nullable(instance(keyword("undefined"), model.SimpleType)),
+				nullable(PromiseType()),
+				nullable(StringType()),
+				nullable(instance(identifier(), model.SimpleType)),
+				nullable(sequence),
+				nullable(instance(keyword("object"), model.SimpleType)),
+				nullable(instance(keyword("RegExp"), model.SimpleType)),
+				nullable(instance(keyword("Error"), model.SimpleType)),
+				nullable(instance(keyword("DOMException"), model.SimpleType)),
+				nullable(BufferRelatedType()),
+				nullable(frozen),
+				nullable(RecordType())
+			);
 		});
+	}
+
+	function StringType(): IParser<model.Type> {
+		return rule("StringType", () => instance(choose(keyword("ByteString"), keyword("DOMString"), keyword("USVString")), model.SimpleType));
+	}
 
-		const frozen = create<model.FrozenArrayType>(function* () {
-			yield keyword("FrozenArray");
+	function RecordType(): IParser<model.Type> {
+		return rule("RecordType", () => create<model.Type>(function* () {
+			yield keyword("record");
 			yield other("<");
-			let type = yield Type();
+			let key = yield name(node(StringType()), "string type");
+			yield other(",");
+			let value = yield Type();
 			yield other(">");
 
-			return new model.FrozenArrayType(type);
-		});
-
-		return choose(
-			apply(PrimitiveType(), Null()),
-			apply(PromiseType(), Null()),
-			apply(instance(keyword("ByteString"), model.SimpleType), Null()),
-			apply(instance(keyword("DOMString"), model.SimpleType), Null()),
-			apply(instance(keyword("USVString"), model.SimpleType), Null()),
-			apply(instance(identifier(), model.SimpleType), Null()),
-			apply(sequence, Null()),
-			apply(instance(keyword("object"), model.SimpleType), Null()),
-			apply(instance(keyword("RegExp"), model.SimpleType), Null()),
-			apply(instance(keyword("Error"), model.SimpleType), Null()),
-			apply(instance(keyword("DOMException"), model.SimpleType), Null()),
-			apply(BufferRelatedType(), Null()),
-			apply(frozen, Null())
-		);
+			return new model.RecordType(key, value);
+		}));
 	}
 
 	function BufferRelatedType(): IParser<model.Type> {
-		const keywords = [
-			"ArrayBuffer", "DataView", "Int8Array",
-			"Int16Array", "Int32Array", "Uint8Array",
-			"Uint16Array", "Uint32Array", "Uint8ClampedArray",
-			"Float32Array", "Float64Array"
-		];
-
-		return instance(choose(...keywords.map(keyword)), model.SimpleType);
+		return rule("BufferRelatedType", () => {
+			const keywords = [
+				"ArrayBuffer", "DataView", "Int8Array",
+				"Int16Array", "Int32Array", "Uint8Array",
+				"Uint16Array", "Uint32Array", "Uint8ClampedArray",
+				"Float32Array", "Float64Array"
+			];
+
+			return instance(choose(...keywords.map(keyword)), model.SimpleType);
+		});
 	}
 
 	function ConstType(): IParser<model.Type> {
-		const type = choose(PrimitiveType(), instance(identifier(), model.SimpleType));
-		return apply(type, Null());
+		return rule("ConstType", () => {
+			const type = choose(PrimitiveType(), instance(identifier(), model.SimpleType));
+			return nullable(type);
+		});
 	}
 
 	function PrimitiveType(): IParser<model.Type> {
-		return choose(
+		return rule("PrimitiveType", () => choose(
 			UnsignedIntegerType(),
 			UnrestrictedFloatType(),
 			instance(keyword("boolean"), model.SimpleType),
 			instance(keyword("byte"), model.SimpleType),
-			instance(keyword("octet"), model.SimpleType)
-		);
+			instance(keyword("octet"), model.SimpleType),
+			instance(keyword("bigint"), model.SimpleType)
+		));
 	}
 
 	function UnrestrictedFloatType(): IParser<model.Type> {
-		return choose(create<model.FloatType>(function* () {
+		return rule("UnrestrictedFloatType", () => choose(create<model.FloatType>(function* () {
 			yield keyword("unrestricted");
 			let type = yield FloatType();
 
 			type.unrestricted = true;
 			return type;
-		}), FloatType());
+		}), FloatType()));
 	}
 
 	function FloatType(): IParser<model.FloatType> {
-		return create<model.FloatType>(function* () {
-			let name = yield choose(keyword("float"), keyword("double"));
-			return new model.FloatType(false, name);
-		})
+		return rule("FloatType", () => {
+			return create<model.FloatType>(function* () {
+				let name = yield choose(keyword("float"), keyword("double"));
+				return new model.FloatType(false, name);
+			})
+		});
 	}
 
 	function UnsignedIntegerType(): IParser<model.Type> {
-		return choose(create<model.IntegerType>(function* () {
+		return rule("UnsignedIntegerType", () => choose(create<model.IntegerType>(function* () {
 			yield keyword("unsigned");
 			let type = yield IntegerType();
 
 			type.unsigned = true;
 			return type;
-		}), IntegerType());
+		}), IntegerType()));
 	}
 
 	function IntegerType(): IParser<model.IntegerType> {
-		return choose(create<model.IntegerType>(function* () {
+		return rule("IntegerType", () => choose(create<model.IntegerType>(function* () {
 			let name = yield keyword("short");
 			return new model.IntegerType(false, name, false);
 		}), create<model.IntegerType>(function* () {
 			let name = yield keyword("long");
 			let long = yield OptionalLong();
 			return new model.IntegerType(false, name, long);
-		}));
+		})));
 	}
 
 	function OptionalLong(): IParser<boolean> {
-		return exists(keyword("long"));
+		return rule("OptionalLong", () => exists(keyword("long")));
 	}
 
 	function PromiseType(): IParser<model.Type> {
-		return create<model.Type>(function* () {
+		return rule("PromiseType", () => create<model.Type>(function* () {
 			yield keyword("Promise");
 			yield other("<");
 			let type = yield Type();
 			yield other(">");
 
 			return new model.PromiseType(type);
-		});
+		}));
 	}
 
 	function Null(): IParser<model.TypeMapping> {
-		let questionmark = map(other("?"), function(_): model.TypeMapping {
-			return (t: model.Type) => new model.NullableType(t);
-		});
+		return rule("Null", () => {
+			let questionmark = map(other("?"), function(_): model.TypeMapping {
+				return (t: model.Type) => new model.NullableType(t);
+			});
 		
-		// TODO: Remove temporary fix for array types.
-		let array = create<model.TypeMapping>(function*() {
-			yield other("[");
-			yield other("]");
+			// TODO: Remove temporary fix for array types.
+			let array = create<model.TypeMapping>(function*() {
+				yield other("[");
+				yield other("]");
 			
-			return (t: model.Type) => new model.FrozenArrayType(t);
-		});
+				return (t: model.Type) => new model.FrozenArrayType(t);
+			});
 
-		return choose(questionmark, array, constant(id));
+			return choose(questionmark, array, constant(id));
+		});
 	}
 
 	function ReturnType(): IParser<model.Type> {
-		return choose(Type(), map(keyword("void"), (_) => null));
+		return rule("ReturnType", () => choose(Type(), map(keyword("void"), (_): model.Type => null)));
 	}
 
 	function IdentifierList(): IParser<TextSpan[]> {
-		return create<TextSpan[]>(function* () {
+		return rule("IdentifierList", () => create<TextSpan[]>(function* () {
 			let head = yield identifier();
 			let tail = yield Identifiers();
 
 			return [head].concat(tail);
-		});
+		}));
 	}
 
 	function Identifiers(): IParser<TextSpan[]> {
-		return optional(create<TextSpan[]>(function* () {
+		return rule("Identifiers", () => optional(create<TextSpan[]>(function* () {
 			yield other(",");
 			let head = yield identifier();
 			let tail = yield Identifiers();
 
 			return [head].concat(tail);
-		}), []);
+		}), []));
 	}
 
 	function ExtendedAttributeNoArgs(): IParser<model.ExtendedAttribute> {
-		return instance(identifier(), model.ExtendedAttribute);
+		return rule("ExtendedAttributeNoArgs", () => instance(identifier(), model.ExtendedAttribute), true);
 	}
 
 	function ExtendedAttributeArgList(): IParser<model.ExtendedAttributeArgList> {
-		return create<model.ExtendedAttributeArgList>(function* () {
+		return rule("ExtendedAttributeArgList", () => create<model.ExtendedAttributeArgList>(function* () {
 			let id = yield identifier();
 			yield other("(");
 			let args = yield ArgumentList();
 			yield other(")");
 
 			return new model.ExtendedAttributeArgList(id, args);
-		});
+		}), true);
 	}
 
 	function ExtendedAttributeIdent(): IParser<model.ExtendedAttributeIdent> {
-		return create<model.ExtendedAttributeIdent>(function* () {
+		return rule("ExtendedAttributeIdent", () => create<model.ExtendedAttributeIdent>(function* () {
 			let id = yield identifier();
 			yield other("=");
 			let ident = yield identifier();
 
-			return new model.ExtendedAttributeArgList(id, ident);
-		});
+			return new model.ExtendedAttributeIdent(id, ident);
+		}), true);
 	}
 
 	function ExtendedAttributeIdentList(): IParser<model.ExtendedAttributeIdentList> {
-		return create<model.ExtendedAttributeIdentList>(function* () {
+		return rule("ExtendedAttributeIdentList", () => create<model.ExtendedAttributeIdentList>(function* () {
 			let id = yield identifier();
 			yield other("=");
 			yield other("(");
@@ -1468,11 +2299,31 @@ export namespace grammar {
 			yield other(")");
 
 			return new model.ExtendedAttributeIdentList(id, idents);
-		});
+		}), true);
+	}
+
+	function ExtendedAttributeWildcard(): IParser<model.ExtendedAttributeWildcard> {
+		return rule("ExtendedAttributeWildcard", () => create<model.ExtendedAttributeWildcard>(function* () {
+			let id = yield identifier();
+			yield other("=");
+			yield other("*");
+
+			return new model.ExtendedAttributeWildcard(id);
+		}), true);
+	}
+
+	function ExtendedAttributeLiteral(): IParser<model.ExtendedAttributeLiteral> {
+		return rule("ExtendedAttributeLiteral", () => create<model.ExtendedAttributeLiteral>(function* () {
+			let id = yield identifier();
+			yield other("=");
+			let value = yield choose(token(TokenKind.string), token(TokenKind.integer), token(TokenKind.float));
+
+			return new model.ExtendedAttributeLiteral(id, value);
+		}), true);
 	}
 
 	function ExtendedAttributeNamedArgList(): IParser<model.ExtendedAttributeNamedArgList> {
-		return create<model.ExtendedAttributeNamedArgList>(function* () {
+		return rule("ExtendedAttributeNamedArgList", () => create<model.ExtendedAttributeNamedArgList>(function* () {
 			let id = yield identifier();
 			yield other("=");
 			let ident = yield identifier();
@@ -1481,15 +2332,7 @@ export namespace grammar {
 			yield other(")");
 
 			return new model.ExtendedAttributeNamedArgList(id, ident, args);
-		});
-	}
-	
-	interface SemanticError {
-		
-	}
-	
-	class Semantic implements ISyntaxVisitor<SemanticError[]> {
-		
+		}), true);
 	}
 	
 	class Minifier implements ISyntaxVisitor<void> {